@@ -1,24 +1,67 @@
-import { app, BrowserWindow, clipboard, dialog, ipcMain, nativeImage } from 'electron';
+import { app, BrowserWindow, clipboard, dialog, ipcMain, nativeImage, shell } from 'electron';
 import { randomUUID } from 'node:crypto';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 
+import type { ConnectionResult } from '../src/shared/ipc';
+import { findScopeRefName, findSpaceForScope, getTeamFolders, getTeamLists } from '../src/shared/scopeTree';
+import { createTaskRuleFilter, createTaskRuleMatcher, describeTaskRule, getNamePatternError } from '../src/shared/taskRules';
 import { alertDraftSchema } from '../src/shared/validation';
 import type {
   AlertConfig,
   AlertDraft,
+  AlertExportOptions,
+  AlertImportPreview,
+  AlertImportResult,
+  AlertImportSelection,
+  AlertScopeRef,
+  AlertSnapshot,
+  AlertTransferSnapshots,
+  BackupRestoreRequest,
+  ClickUpConnection,
+  ConnectionInput,
   InitialData,
+  RateLimitStatus,
   RefreshAlertResult,
   ScopeTreeTeam,
+  SnapshotHistoryQuery,
+  TaskInfo,
+  TaskRulePreview,
+  TaskRulePreviewQuery,
+  TaskSearchQuery,
+  TeamInfo,
   UiPreferences
 } from '../src/shared/types';
+import {
+  buildImportPreview,
+  detectTransferFormat,
+  parseAlertExport,
+  parseTransferSnapshots,
+  serializeAlertExport
+} from './services/alertTransfer';
+import { BackupManager } from './services/backups';
 import { ClickUpClient } from './services/clickupClient';
-import { refreshSingleAlert } from './services/refreshAlerts';
-import { buildErrorSnapshot } from './services/alertEngine';
+import { fetchAlertEntries, loadTaskLookup, refreshSingleAlert } from './services/refreshAlerts';
+import { buildEntryBreakdown, buildErrorSnapshot } from './services/alertEngine';
+import { notifyStatusChanges } from './services/notifications';
+import { RefreshScheduler } from './services/refreshScheduler';
 import { LocalStore } from './services/storage';
+import { RateLimiter } from './services/rateLimiter';
+import { ResponseCache } from './services/responseCache';
+import { searchTasks } from './services/taskSearch';
+import { StatusTray } from './services/tray';
 
 let mainWindow: BrowserWindow | null = null;
 let store: LocalStore;
+let scheduler: RefreshScheduler;
+let tray: StatusTray | null = null;
+let responseCache: ResponseCache;
+let backups: BackupManager;
+// ClickUp rate limits are per token, so every connection gets its own limiter.
+const rateLimiters = new Map<string, RateLimiter>();
+let isQuitting = false;
+let shutdownTask: Promise<void> | undefined;
+let shutdownComplete = false;
 
 const sortAlerts = (alerts: AlertConfig[]): AlertConfig[] =>
   [...alerts].sort((a, b) => a.order - b.order || a.createdAt.localeCompare(b.createdAt));
@@ -26,90 +69,316 @@ const sortAlerts = (alerts: AlertConfig[]): AlertConfig[] =>
 const dedupeIds = (ids: string[] | undefined): string[] =>
   [...new Set((ids ?? []).map((id) => id.trim()).filter((id) => id.length > 0))];
 
-const withClient = async <T>(fn: (client: ClickUpClient) => Promise<T>): Promise<T> => {
-  const token = await store.getToken();
+const dedupeScopes = (scopes: AlertScopeRef[] | undefined): AlertScopeRef[] | undefined =>
+  scopes?.filter(
+    (scope, index) => scopes.findIndex((item) => item.type === scope.type && item.id === scope.id) === index
+  );
+
+const getRateLimiter = (connectionId: string): RateLimiter => {
+  let limiter = rateLimiters.get(connectionId);
+  if (!limiter) {
+    limiter = new RateLimiter();
+    rateLimiters.set(connectionId, limiter);
+  }
+  return limiter;
+};
+
+// Alerts saved without a connection (for example from an import) use the first one.
+const resolveConnectionId = async (connectionId?: string): Promise<string> => {
+  const connections = await store.getConnections();
+  if (connections.length === 0) {
+    throw new Error('No ClickUp connection configured. Add a connection in settings first.');
+  }
+  if (!connectionId) return connections[0].id;
+  if (!connections.some((item) => item.id === connectionId)) {
+    throw new Error('The ClickUp connection for this alert no longer exists. Pick another connection.');
+  }
+  return connectionId;
+};
+
+const withClient = async <T>(
+  connectionId: string | undefined,
+  fn: (client: ClickUpClient) => Promise<T>
+): Promise<T> => {
+  const resolvedId = await resolveConnectionId(connectionId);
+  const token = await store.getConnectionToken(resolvedId);
   if (!token) {
-    throw new Error('No ClickUp token configured. Add a token in settings first.');
+    throw new Error('The token for this ClickUp connection could not be read. Save it again in settings.');
   }
-  const client = new ClickUpClient(token);
+  const client = new ClickUpClient(token, { cache: responseCache, rateLimiter: getRateLimiter(resolvedId) });
   return fn(client);
 };
 
+const testConnectionToken = async (token: string, rateLimiter?: RateLimiter): Promise<ConnectionResult> => {
+  try {
+    const client = new ClickUpClient(token, { rateLimiter });
+    const teams = await client.getTeams();
+    return {
+      ok: true,
+      teams,
+      message: teams.length > 0 ? undefined : 'Connected, but no accessible workspaces were found.'
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      teams: [],
+      message: error instanceof Error ? error.message : 'Connection test failed.'
+    };
+  }
+};
+
+const testStoredConnection = async (id: string): Promise<ConnectionResult> => {
+  const token = await store.getConnectionToken(id);
+  const result = token
+    ? await testConnectionToken(token, getRateLimiter(id))
+    : { ok: false, teams: [], message: 'The token for this connection could not be read. Save it again.' };
+
+  // A failed test keeps the last known workspaces so alerts stay editable.
+  await store.updateConnectionStatus(id, {
+    ...(result.ok ? { teams: result.teams } : {}),
+    testStatus: result.ok ? 'ok' : 'failed',
+    testMessage: result.message,
+    testedAt: new Date().toISOString()
+  });
+  return result;
+};
+
+const collectTeams = (connections: ClickUpConnection[]): TeamInfo[] => {
+  const teams = new Map<string, TeamInfo>();
+  for (const connection of connections) {
+    for (const team of connection.teams) {
+      if (!teams.has(team.id)) teams.set(team.id, team);
+    }
+  }
+  return [...teams.values()];
+};
+
+const updateTray = async (): Promise<void> => {
+  tray?.update(await store.getAlerts());
+};
+
+// Refreshes only own the snapshot and period fields; config edits saved mid-refresh win.
+const withRefreshResult = (current: AlertConfig, refreshed: AlertConfig): AlertConfig => ({
+  ...current,
+  lastRefreshedAt: refreshed.lastRefreshedAt,
+  lastSnapshot: refreshed.lastSnapshot,
+  currentPeriodStart: refreshed.currentPeriodStart,
+  periodLedger: refreshed.periodLedger
+});
+
+const saveRefreshResults = async (results: RefreshAlertResult[]): Promise<RefreshAlertResult[]> => {
+  const saved = await store.updateAlerts(
+    results.map((item) => item.alert),
+    withRefreshResult
+  );
+  tray?.update(saved);
+  const savedById = new Map(saved.map((alert) => [alert.id, alert]));
+  return results.map((item) => ({ ...item, alert: savedById.get(item.alert.id) ?? item.alert }));
+};
+
+const showDashboard = (alertId?: string): void => {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    createWindow();
+    if (alertId) {
+      mainWindow?.webContents.once('did-finish-load', () => mainWindow?.webContents.send('alerts:focus', alertId));
+    }
+    return;
+  }
+
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.show();
+  mainWindow.focus();
+  if (alertId) {
+    mainWindow.webContents.send('alerts:focus', alertId);
+  }
+};
+
+const focusAlertCard = (alertId: string): void => showDashboard(alertId);
+
 const hydrateDraftNames = (draft: AlertDraft, scopeTree: ScopeTreeTeam[]): AlertDraft => {
   const team = scopeTree.find((item) => item.id === draft.teamId);
   if (!team) return draft;
 
-  const folder = draft.folderId ? team.folders.find((item) => item.id === draft.folderId) : undefined;
-  const lists = team.folders.flatMap((item) => item.lists);
-  const list = draft.listId ? lists.find((item) => item.id === draft.listId) : undefined;
+  const space = findSpaceForScope(team, draft);
+  const folder = draft.folderId ? getTeamFolders(team).find((item) => item.id === draft.folderId) : undefined;
+  const list = draft.listId ? getTeamLists(team).find((item) => item.id === draft.listId) : undefined;
+  const scopes = draft.scopes?.map((scope) => ({ ...scope, name: findScopeRefName(team, scope) ?? scope.name }));
 
   return {
     ...draft,
+    scopes,
+    spaceId: space?.id ?? draft.spaceId,
+    spaceName: space?.name,
     folderName: folder?.name,
     listName: list?.name
   };
 };
 
+const changesPeriodDefinition = (alert: AlertConfig, draft: AlertDraft): boolean =>
+  !draft.recurringPeriod ||
+  draft.timeRangeMode !== alert.timeRangeMode ||
+  draft.weekStartsOn !== alert.weekStartsOn ||
+  draft.fiscalYearStartMonth !== alert.fiscalYearStartMonth ||
+  (draft.timeZone || undefined) !== (alert.timeZone || undefined) ||
+  (draft.rolloverMode ?? 'none') !== (alert.rolloverMode ?? 'none') ||
+  (draft.budgetSource ?? 'manual') !== (alert.budgetSource ?? 'manual');
+
 const applyDraftToAlert = (alert: AlertConfig, draft: AlertDraft): AlertConfig => {
   const nowIso = new Date().toISOString();
+  // A ledger only makes sense for one period definition; start over when it changes.
+  const ledger = changesPeriodDefinition(alert, draft)
+    ? { periodLedger: undefined, currentPeriodStart: undefined }
+    : {};
 
   return {
     ...alert,
     ...draft,
+    ...ledger,
     description: draft.description?.trim() || '',
     excludedTaskIds: dedupeIds(draft.excludedTaskIds),
     includeOnlyTaskIds: dedupeIds(draft.includeOnlyTaskIds),
+    userIds: dedupeIds(draft.userIds),
+    notifyOn: draft.notifyOn ?? alert.notifyOn,
     updatedAt: nowIso
   };
 };
 
+const pickTaskNames = (
+  names: Record<string, string> | undefined,
+  taskIds: string[]
+): Record<string, string> | undefined => {
+  const picked = Object.fromEntries(taskIds.filter((id) => names?.[id]).map((id) => [id, names?.[id] ?? '']));
+  return Object.keys(picked).length > 0 ? picked : undefined;
+};
+
 const sanitizeDraft = (draft: AlertDraft): AlertDraft => {
   const parsed = alertDraftSchema.parse({
     ...draft,
     description: draft.description?.trim(),
     excludedTaskIds: dedupeIds(draft.excludedTaskIds),
-    includeOnlyTaskIds: dedupeIds(draft.includeOnlyTaskIds)
+    includeOnlyTaskIds: dedupeIds(draft.includeOnlyTaskIds),
+    userIds: dedupeIds(draft.userIds)
   });
 
   return {
     ...parsed,
     description: parsed.description?.trim(),
+    scopes: parsed.type === 'multi' ? dedupeScopes(parsed.scopes) : undefined,
+    taskRules: parsed.taskRules?.length ? parsed.taskRules : undefined,
     excludedTaskIds: dedupeIds(parsed.excludedTaskIds),
-    includeOnlyTaskIds: dedupeIds(parsed.includeOnlyTaskIds)
+    includeOnlyTaskIds: dedupeIds(parsed.includeOnlyTaskIds),
+    taskNames: pickTaskNames(parsed.taskNames, [
+      ...dedupeIds(parsed.excludedTaskIds),
+      ...dedupeIds(parsed.includeOnlyTaskIds)
+    ]),
+    userIds: dedupeIds(parsed.userIds)
   };
 };
 
+const withImportedSnapshots = (snapshots: AlertTransferSnapshots | undefined): Partial<AlertConfig> => ({
+  lastRefreshedAt: snapshots?.lastRefreshedAt,
+  lastSnapshot: snapshots?.lastSnapshot,
+  currentPeriodStart: snapshots?.currentPeriodStart,
+  periodLedger: snapshots?.periodLedger
+});
+
+const withWorkspaceTimeZone = (alert: AlertConfig, workspaceTimeZones: Record<string, string>): AlertConfig =>
+  alert.timeZone || !workspaceTimeZones[alert.teamId] ? alert : { ...alert, timeZone: workspaceTimeZones[alert.teamId] };
+
+const refreshInWorkspaceTimeZone = async (
+  client: ClickUpClient,
+  alert: AlertConfig,
+  workspaceTimeZones: Record<string, string>,
+  teamMemberIds: string[]
+): Promise<RefreshAlertResult> => {
+  const result = await refreshSingleAlert(client, withWorkspaceTimeZone(alert, workspaceTimeZones), undefined, teamMemberIds);
+  // The workspace default is applied per refresh; only an explicit alert timezone is persisted.
+  return { ...result, alert: { ...result.alert, timeZone: alert.timeZone } };
+};
+
+const toFailedResults = (alerts: AlertConfig[], message: string): RefreshAlertResult[] => {
+  const nowIso = new Date().toISOString();
+  return alerts.map((alert) => ({
+    success: false,
+    errorMessage: message,
+    alert: {
+      ...alert,
+      lastRefreshedAt: nowIso,
+      updatedAt: nowIso,
+      lastSnapshot: buildErrorSnapshot(alert, message)
+    }
+  }));
+};
+
+const refreshConnectionAlerts = async (
+  client: ClickUpClient,
+  alerts: AlertConfig[],
+  workspaceTimeZones: Record<string, string>
+): Promise<RefreshAlertResult[]> => {
+  const results: RefreshAlertResult[] = [];
+  const teamMemberCache = new Map<string, string[]>();
+
+  for (const alert of alerts) {
+    let teamMemberIds = teamMemberCache.get(alert.teamId);
+    if (!teamMemberIds) {
+      try {
+        teamMemberIds = await client.getTeamMemberIds(alert.teamId);
+      } catch {
+        teamMemberIds = [];
+      }
+      teamMemberCache.set(alert.teamId, teamMemberIds);
+    }
+
+    const refreshed = await refreshInWorkspaceTimeZone(client, alert, workspaceTimeZones, teamMemberIds);
+    results.push(refreshed);
+  }
+
+  return results;
+};
+
 const refreshAllInternal = async (alerts: AlertConfig[]): Promise<RefreshAlertResult[]> => {
-  return withClient(async (client) => {
-    const results: RefreshAlertResult[] = [];
-    const teamMemberCache = new Map<string, string[]>();
-
-    for (const alert of sortAlerts(alerts)) {
-      let teamMemberIds = teamMemberCache.get(alert.teamId);
-      if (!teamMemberIds) {
-        try {
-          teamMemberIds = await client.getTeamMemberIds(alert.teamId);
-        } catch {
-          teamMemberIds = [];
-        }
-        teamMemberCache.set(alert.teamId, teamMemberIds);
+  const connections = await store.getConnections();
+  const { workspaceTimeZones } = await store.getUiPreferences();
+
+  const alertsByConnection = new Map<string | undefined, AlertConfig[]>();
+  for (const alert of sortAlerts(alerts)) {
+    const connectionId = alert.connectionId ?? connections[0]?.id;
+    alertsByConnection.set(connectionId, [...(alertsByConnection.get(connectionId) ?? []), alert]);
+  }
+
+  // Connections have separate tokens and rate limits, so they refresh side by side and fail independently.
+  const groupResults = await Promise.all(
+    [...alertsByConnection].map(async ([connectionId, group]) => {
+      try {
+        return await withClient(connectionId, (client) => refreshConnectionAlerts(client, group, workspaceTimeZones));
+      } catch (error) {
+        return toFailedResults(group, error instanceof Error ? error.message : 'Failed to refresh alerts.');
       }
+    })
+  );
 
-      const refreshed = await refreshSingleAlert(client, alert, undefined, teamMemberIds);
-      results.push(refreshed);
-    }
+  const savedResults = await saveRefreshResults(groupResults.flat());
+  await store.appendSnapshotHistory(savedResults.map((item) => item.alert));
+  notifyStatusChanges(alerts, savedResults, focusAlertCard);
+  return savedResults;
+};
 
-    const nextAlertsById = new Map(results.map((item) => [item.alert.id, item.alert]));
-    const nextAlerts = sortAlerts(
-      alerts.map((alert) => {
-        const replacement = nextAlertsById.get(alert.id);
-        return replacement ?? alert;
-      })
-    );
+const refreshAlertById = async (id: string): Promise<RefreshAlertResult> => {
+  const alerts = await store.getAlerts();
+  const target = alerts.find((item) => item.id === id);
+  if (!target) throw new Error('Alert not found.');
 
-    await store.setAlerts(nextAlerts);
-    return results;
+  const result = await withClient(target.connectionId, async (client) => {
+    const teamMemberIds = await client.getTeamMemberIds(target.teamId).catch(() => []);
+    const { workspaceTimeZones } = await store.getUiPreferences();
+    return refreshInWorkspaceTimeZone(client, target, workspaceTimeZones, teamMemberIds);
   });
+
+  const [savedResult] = await saveRefreshResults([result]);
+  await store.appendSnapshotHistory([savedResult.alert]);
+  notifyStatusChanges([target], [savedResult], focusAlertCard);
+
+  return savedResult;
 };
 
 const formatCsv = (alerts: AlertConfig[]): string => {
@@ -122,8 +391,16 @@ const formatCsv = (alerts: AlertConfig[]): string => {
     'Remaining Hours',
     'Percent Used',
     'Over By Hours',
+    'Currency',
+    'Cost Used',
+    'Budget Amount',
+    'Cost Remaining',
+    'Over By Amount',
     'Last Refreshed',
-    'Scope'
+    'Scope',
+    'Excluded Tasks',
+    'Include-Only Tasks',
+    'Task Rules'
   ];
 
   const esc = (value: string | number | undefined): string => {
@@ -134,6 +411,9 @@ const formatCsv = (alerts: AlertConfig[]): string => {
     return str;
   };
 
+  const taskLabels = (alert: AlertConfig, taskIds: string[] | undefined): string =>
+    (taskIds ?? []).map((id) => alert.taskNames?.[id] ?? id).join('; ');
+
   const rows = alerts.map((alert) => {
     const snapshot = alert.lastSnapshot;
     return [
@@ -141,12 +421,20 @@ const formatCsv = (alerts: AlertConfig[]): string => {
       alert.type,
       snapshot?.status ?? 'n/a',
       snapshot?.hoursUsed ?? 0,
-      alert.budgetHours,
+      snapshot?.budgetHours ?? alert.budgetHours,
       snapshot?.remainingHours ?? alert.budgetHours,
       snapshot?.percentUsed ?? 0,
       snapshot?.overByHours ?? 0,
+      snapshot?.cost?.currency ?? '',
+      snapshot?.cost?.costUsed,
+      snapshot?.cost?.budgetAmount,
+      snapshot?.cost?.costRemaining,
+      snapshot?.cost?.overByAmount,
       alert.lastRefreshedAt ?? '',
-      snapshot?.scopeSummary ?? ''
+      snapshot?.scopeSummary ?? '',
+      taskLabels(alert, alert.excludedTaskIds),
+      taskLabels(alert, alert.includeOnlyTaskIds),
+      (alert.taskRules ?? []).map(describeTaskRule).join('; ')
     ]
       .map(esc)
       .join(',');
@@ -157,106 +445,139 @@ const formatCsv = (alerts: AlertConfig[]): string => {
 
 const registerIpcHandlers = (): void => {
   ipcMain.handle('app:get-initial-data', async (): Promise<InitialData> => {
-    const [alerts, uiPreferences, hasToken] = await Promise.all([
+    const [alerts, uiPreferences, connections, recovery] = await Promise.all([
       store.getAlerts(),
       store.getUiPreferences(),
-      store.hasToken()
+      store.getConnections(),
+      store.getRecoveryNotice()
     ]);
 
-    if (!hasToken) {
-      return {
-        auth: { hasToken: false, teams: [] },
-        alerts,
-        uiPreferences
-      };
-    }
+    return {
+      auth: { connections, teams: collectTeams(connections) },
+      alerts,
+      uiPreferences,
+      recovery
+    };
+  });
 
-    try {
-      const token = await store.getToken();
-      if (!token) {
-        return {
-          auth: { hasToken: false, teams: [] },
-          alerts,
-          uiPreferences
-        };
-      }
+  ipcMain.handle('state:dismiss-recovery', async () => store.dismissRecoveryNotice());
 
-      const teams = await new ClickUpClient(token).getTeams();
-      return {
-        auth: { hasToken: true, teams },
-        alerts,
-        uiPreferences
-      };
-    } catch {
-      return {
-        auth: { hasToken: true, teams: [] },
-        alerts,
-        uiPreferences
-      };
-    }
+  ipcMain.handle('state:reveal-backup', async () => {
+    const recovery = await store.getRecoveryNotice();
+    if (!recovery) throw new Error('No state backup to show.');
+    shell.showItemInFolder(recovery.backupPath);
   });
 
-  ipcMain.handle('auth:test-connection', async (_, tokenArg?: string) => {
-    const token = tokenArg?.trim() || (await store.getToken());
+  ipcMain.handle('connections:list', async () => store.getConnections());
 
-    if (!token) {
-      return {
-        ok: false,
-        teams: [],
-        message: 'Provide a ClickUp token first.'
-      };
-    }
+  ipcMain.handle('connections:test', async (_, input: { id?: string; token?: string }) => {
+    const token = input?.token?.trim();
+    if (token) return testConnectionToken(token);
+    if (input?.id) return testStoredConnection(input.id);
+    return { ok: false, teams: [], message: 'Provide a ClickUp token first.' };
+  });
 
-    try {
-      const client = new ClickUpClient(token);
-      const teams = await client.getTeams();
-      return {
-        ok: true,
-        teams,
-        message: teams.length > 0 ? undefined : 'Connected, but no accessible workspaces were found.'
-      };
-    } catch (error) {
-      return {
-        ok: false,
-        teams: [],
-        message: error instanceof Error ? error.message : 'Connection test failed.'
-      };
-    }
+  ipcMain.handle('connections:save', async (_, input: ConnectionInput): Promise<ClickUpConnection> => {
+    const saved = await store.saveConnection(input);
+    if (!input.token?.trim()) return saved;
+
+    await testStoredConnection(saved.id);
+    const connections = await store.getConnections();
+    return connections.find((item) => item.id === saved.id) ?? saved;
   });
 
-  ipcMain.handle('auth:save-token', async (_, token: string) => {
-    if (!token?.trim()) {
-      throw new Error('Token cannot be empty.');
+  ipcMain.handle('connections:delete', async (_, id: string) => {
+    const connections = await store.getConnections();
+    const connection = connections.find((item) => item.id === id);
+    if (!connection) return;
+
+    const boundAlerts = (await store.getAlerts()).filter((alert) => alert.connectionId === id);
+    if (boundAlerts.length > 0) {
+      throw new Error(
+        `"${connection.name}" is used by ${boundAlerts.length} alert${boundAlerts.length === 1 ? '' : 's'}. Move them to another connection or delete them first.`
+      );
     }
-    await store.setToken(token.trim());
+
+    await store.deleteConnection(id);
+    rateLimiters.delete(id);
   });
 
-  ipcMain.handle('auth:clear-token', async () => {
-    await store.clearToken();
+  ipcMain.handle('scope:get-tree', async (): Promise<ScopeTreeTeam[]> => {
+    const connections = await store.getConnections();
+    const trees = await Promise.allSettled(
+      connections.map((connection) => withClient(connection.id, (client) => client.getScopeTree()))
+    );
+
+    // One unreachable connection should not hide the workspaces of the others.
+    const teams = trees.flatMap((tree, index) =>
+      tree.status === 'fulfilled' ? tree.value.map((team) => ({ ...team, connectionId: connections[index].id })) : []
+    );
+    const failure = trees.find((tree): tree is PromiseRejectedResult => tree.status === 'rejected');
+    if (teams.length === 0 && failure) throw failure.reason;
+    return teams;
   });
 
-  ipcMain.handle('scope:get-tree', async () => withClient((client) => client.getScopeTree()));
+  ipcMain.handle('team:get-members', async (_, teamId: string, connectionId?: string) =>
+    withClient(connectionId, (client) => client.getTeamMembers(teamId))
+  );
+
+  ipcMain.handle('tasks:search', async (_, query: TaskSearchQuery) => {
+    const listIds = [...new Set(query?.listIds ?? [])];
+    if (listIds.length === 0) return [];
+
+    return withClient(query.connectionId, async (client) => {
+      const tasks: TaskInfo[] = [];
+      for (const listId of listIds) {
+        tasks.push(...(await client.getTasks(listId)));
+      }
+      return searchTasks(tasks, query.search ?? '');
+    });
+  });
+
+  ipcMain.handle('rules:preview', async (_, query: TaskRulePreviewQuery): Promise<TaskRulePreview> => {
+    const listIds = [...new Set(query?.listIds ?? [])];
+    const rules = query?.rules ?? [];
+    const patternError = rules.map((rule) => (rule.field === 'name' ? getNamePatternError(rule) : undefined)).find(Boolean);
+    if (patternError) throw new Error(patternError);
+
+    const tasks = await withClient(query.connectionId, async (client) => {
+      const loaded = new Map<string, TaskInfo>();
+      for (const listId of listIds) {
+        for (const task of await client.getTasks(listId)) {
+          if (!loaded.has(task.id)) loaded.set(task.id, task);
+        }
+      }
+      return [...loaded.values()];
+    });
+
+    const isCounted = createTaskRuleFilter(rules);
+    return {
+      totalTaskCount: tasks.length,
+      countedTaskCount: tasks.filter(isCounted).length,
+      rules: rules.map((rule) => {
+        const matched = tasks.filter(createTaskRuleMatcher(rule));
+        return { matchCount: matched.length, tasks: searchTasks(matched, '') };
+      })
+    };
+  });
 
   ipcMain.handle('alerts:create', async (_, draft: AlertDraft) => {
     const safeDraft = sanitizeDraft(draft);
-    const alerts = await store.getAlerts();
+    const connectionId = await resolveConnectionId(safeDraft.connectionId);
 
-    const hydratedDraft = await withClient(async (client) => {
+    const hydratedDraft = await withClient(connectionId, async (client) => {
       const scopeTree = await client.getScopeTree();
-      return hydrateDraftNames(safeDraft, scopeTree);
+      return { ...hydrateDraftNames(safeDraft, scopeTree), connectionId };
     });
 
     const nowIso = new Date().toISOString();
-    const nextAlert: AlertConfig = {
+    const nextAlert = await store.insertAlert({
       id: randomUUID(),
-      order: alerts.length,
       ...hydratedDraft,
       createdAt: nowIso,
       updatedAt: nowIso
-    };
-
-    const nextAlerts = sortAlerts([...alerts, nextAlert]);
-    await store.setAlerts(nextAlerts);
+    });
+    await updateTray();
 
     return nextAlert;
   });
@@ -264,26 +585,27 @@ const registerIpcHandlers = (): void => {
   ipcMain.handle('alerts:update', async (_, id: string, draft: AlertDraft) => {
     const safeDraft = sanitizeDraft(draft);
     const alerts = await store.getAlerts();
-    const current = alerts.find((item) => item.id === id);
-    if (!current) throw new Error('Alert not found.');
+    if (!alerts.some((item) => item.id === id)) throw new Error('Alert not found.');
+    const connectionId = await resolveConnectionId(safeDraft.connectionId);
 
-    const hydratedDraft = await withClient(async (client) => {
+    const hydratedDraft = await withClient(connectionId, async (client) => {
       const scopeTree = await client.getScopeTree();
-      return hydrateDraftNames(safeDraft, scopeTree);
+      return { ...hydrateDraftNames(safeDraft, scopeTree), connectionId };
     });
 
-    const updated = applyDraftToAlert(current, hydratedDraft);
-
-    const nextAlerts = sortAlerts(alerts.map((item) => (item.id === id ? updated : item)));
-    await store.setAlerts(nextAlerts);
+    const updated = await store.updateAlert(id, (current) => applyDraftToAlert(current, hydratedDraft));
+    await updateTray();
 
     return updated;
   });
 
   ipcMain.handle('alerts:delete', async (_, id: string) => {
     const alerts = await store.getAlerts();
-    const filtered = alerts.filter((item) => item.id !== id).map((item, index) => ({ ...item, order: index }));
-    await store.setAlerts(filtered);
+    if (!alerts.some((item) => item.id === id)) return;
+
+    await backups.create('beforeDelete');
+    await store.deleteAlert(id);
+    await updateTray();
   });
 
   ipcMain.handle('alerts:duplicate', async (_, id: string) => {
@@ -292,81 +614,93 @@ const registerIpcHandlers = (): void => {
     if (!existing) throw new Error('Alert not found.');
 
     const nowIso = new Date().toISOString();
-    const copy: AlertConfig = {
+    const copy = await store.insertAlert({
       ...existing,
       id: randomUUID(),
-      order: alerts.length,
       name: `${existing.name} (Copy)`,
       createdAt: nowIso,
       updatedAt: nowIso
-    };
-
-    const nextAlerts = sortAlerts([...alerts, copy]);
-    await store.setAlerts(nextAlerts);
+    });
+    await updateTray();
     return copy;
   });
 
   ipcMain.handle('alerts:reorder', async (_, ids: string[]) => {
-    const alerts = await store.getAlerts();
-    const byId = new Map(alerts.map((item) => [item.id, item]));
-    const next: AlertConfig[] = [];
+    const reordered = await store.setOrder(ids);
+    tray?.update(reordered);
+    return reordered;
+  });
 
-    for (const id of ids) {
-      const found = byId.get(id);
-      if (found) next.push(found);
-    }
+  ipcMain.handle('alerts:refresh', async (_, id: string) => scheduler.runExclusive(() => refreshAlertById(id)));
 
-    for (const alert of alerts) {
-      if (!ids.includes(alert.id)) next.push(alert);
-    }
+  ipcMain.handle('alerts:refresh-all', async () => {
+    const alerts = await store.getAlerts();
+    if (alerts.length === 0) return [] as RefreshAlertResult[];
 
-    const normalized = next.map((alert, index) => ({ ...alert, order: index, updatedAt: new Date().toISOString() }));
-    await store.setAlerts(normalized);
-    return normalized;
+    return scheduler.runExclusive(async () => {
+      try {
+        return await refreshAllInternal(alerts);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to refresh alerts.';
+        const failedResults = toFailedResults(alerts, message);
+
+        const savedResults = await saveRefreshResults(failedResults);
+        await store.appendSnapshotHistory(savedResults.map((item) => item.alert));
+        notifyStatusChanges(alerts, savedResults, focusAlertCard);
+        return savedResults;
+      }
+    });
   });
 
-  ipcMain.handle('alerts:refresh', async (_, id: string) => {
+  ipcMain.handle('alerts:get-entries', async (_, id: string) => {
     const alerts = await store.getAlerts();
     const target = alerts.find((item) => item.id === id);
     if (!target) throw new Error('Alert not found.');
 
-    const result = await withClient(async (client) => {
+    const { workspaceTimeZones } = await store.getUiPreferences();
+    const zonedTarget = withWorkspaceTimeZone(target, workspaceTimeZones);
+
+    return withClient(target.connectionId, async (client) => {
       const teamMemberIds = await client.getTeamMemberIds(target.teamId).catch(() => []);
-      return refreshSingleAlert(client, target, undefined, teamMemberIds);
+      const taskLookup = target.taskRules?.length
+        ? await loadTaskLookup(client, target, await client.getScopeTree())
+        : undefined;
+      const entries = await fetchAlertEntries(client, zonedTarget, teamMemberIds, taskLookup);
+      return buildEntryBreakdown(zonedTarget, entries);
     });
+  });
 
-    const nextAlerts = alerts.map((item) => (item.id === id ? result.alert : item));
-    await store.setAlerts(nextAlerts);
+  ipcMain.handle('history:get', async (_, query: SnapshotHistoryQuery) => {
+    if (!query?.alertId) {
+      throw new Error('Alert ID is required.');
+    }
+    const alert = (await store.getAlerts()).find((item) => item.id === query.alertId);
+    const { workspaceTimeZones } = await store.getUiPreferences();
+    const timeZone = alert ? withWorkspaceTimeZone(alert, workspaceTimeZones).timeZone : undefined;
+    return store.getSnapshotHistory(query, timeZone);
+  });
+
+  ipcMain.handle('cache:get-stats', async () => responseCache.getStats());
 
-    return result;
+  ipcMain.handle('cache:clear', async () => {
+    await responseCache.clear();
+    return responseCache.getStats();
   });
 
-  ipcMain.handle('alerts:refresh-all', async () => {
-    const alerts = await store.getAlerts();
-    if (alerts.length === 0) return [] as RefreshAlertResult[];
+  ipcMain.handle('ratelimit:get-status', async (): Promise<RateLimitStatus[]> => {
+    const connections = await store.getConnections();
+    return connections.map((connection) => ({
+      ...getRateLimiter(connection.id).getStatus(),
+      connectionId: connection.id,
+      connectionName: connection.name
+    }));
+  });
 
-    try {
-      return await refreshAllInternal(alerts);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to refresh alerts.';
-      const nowIso = new Date().toISOString();
-      const failedResults: RefreshAlertResult[] = alerts.map((alert) => {
-        const snapshot = buildErrorSnapshot(alert, message);
-        return {
-          success: false,
-          errorMessage: message,
-          alert: {
-            ...alert,
-            lastRefreshedAt: nowIso,
-            updatedAt: nowIso,
-            lastSnapshot: snapshot
-          }
-        };
-      });
-
-      await store.setAlerts(failedResults.map((item) => item.alert));
-      return failedResults;
-    }
+  ipcMain.handle('scheduler:get-status', async () => scheduler.getStatus());
+
+  ipcMain.handle('scheduler:run-now', async () => {
+    void scheduler.runNow();
+    return scheduler.getStatus();
   });
 
   ipcMain.handle('prefs:update', async (_, partial: Partial<UiPreferences>) => {
@@ -391,6 +725,139 @@ const registerIpcHandlers = (): void => {
     return { filePath: saveResult.filePath };
   });
 
+  ipcMain.handle('alerts:export', async (_, options: AlertExportOptions) => {
+    const alerts = sortAlerts(await store.getAlerts());
+    const history = options.includeSnapshots
+      ? Object.fromEntries(
+          await Promise.all(
+            alerts.map(async (alert) => [alert.id, await store.getSnapshotHistory({ alertId: alert.id })] as const)
+          )
+        )
+      : undefined;
+    const content = serializeAlertExport(alerts, options.format, history);
+    const extension = options.format === 'yaml' ? 'yaml' : 'json';
+
+    const saveResult = await dialog.showSaveDialog({
+      title: 'Export Alert Definitions',
+      defaultPath: `clickup-budget-alerts-${new Date().toISOString().slice(0, 10)}.${extension}`,
+      filters: [{ name: extension.toUpperCase(), extensions: [extension] }]
+    });
+
+    if (saveResult.canceled || !saveResult.filePath) {
+      throw new Error('Export canceled.');
+    }
+
+    await fs.writeFile(saveResult.filePath, content, 'utf8');
+    return { filePath: saveResult.filePath };
+  });
+
+  ipcMain.handle('alerts:import-preview', async (): Promise<AlertImportPreview> => {
+    const openResult = await dialog.showOpenDialog({
+      title: 'Import Alert Definitions',
+      properties: ['openFile'],
+      filters: [{ name: 'Alert definitions', extensions: ['json', 'yaml', 'yml'] }]
+    });
+
+    const filePath = openResult.filePaths[0];
+    if (openResult.canceled || !filePath) {
+      throw new Error('Import canceled.');
+    }
+
+    const format = detectTransferFormat(filePath);
+    const parsed = parseAlertExport(await fs.readFile(filePath, 'utf8'), format);
+    return {
+      filePath,
+      format,
+      exportedAt: parsed.exportedAt,
+      items: buildImportPreview(parsed.alerts, await store.getAlerts(), await store.getConnections())
+    };
+  });
+
+  ipcMain.handle('alerts:import', async (_, selections: AlertImportSelection[]): Promise<AlertImportResult> => {
+    // The backup comes first so the alerts read below are not stale by the time they are written.
+    if (selections.some((selection) => selection.action === 'merge' || selection.action === 'replace')) {
+      await backups.create('beforeImport');
+    }
+
+    const [alerts, connections] = await Promise.all([store.getAlerts(), store.getConnections()]);
+    const connectionIds = new Set(connections.map((connection) => connection.id));
+    const byId = new Map(alerts.map((alert) => [alert.id, alert]));
+    const written = new Map<string, AlertConfig>();
+    const historyByAlertId: Record<string, AlertSnapshot[]> = {};
+    const counts = { created: 0, merged: 0, replaced: 0, skipped: 0 };
+    const nowIso = new Date().toISOString();
+    let nextOrder = alerts.length;
+
+    // Everything is validated before anything is written, so a bad entry aborts the whole import.
+    for (const selection of selections) {
+      if (selection.action === 'skip') {
+        counts.skipped += 1;
+        continue;
+      }
+
+      const parsedDraft = sanitizeDraft(selection.draft);
+      // Snapshots come back through the renderer, so they are checked again before anything is stored.
+      const snapshots = selection.snapshots === undefined ? undefined : parseTransferSnapshots(selection.snapshots);
+      if (selection.snapshots !== undefined && !snapshots) {
+        throw new Error(`The snapshot data for "${parsedDraft.name}" is malformed.`);
+      }
+      const target = selection.targetAlertId ? byId.get(selection.targetAlertId) : undefined;
+      if (selection.action !== 'create' && !target) {
+        throw new Error(`The alert to ${selection.action} with "${parsedDraft.name}" no longer exists.`);
+      }
+
+      // Connection ids only mean something on the machine that created them.
+      const draft: AlertDraft = {
+        ...parsedDraft,
+        connectionId:
+          parsedDraft.connectionId && connectionIds.has(parsedDraft.connectionId)
+            ? parsedDraft.connectionId
+            : target?.connectionId ?? connections[0]?.id
+      };
+
+      if (selection.action === 'merge' && target) {
+        // Merging updates the definition and keeps the existing alert's snapshots and history.
+        written.set(target.id, applyDraftToAlert(target, draft));
+        counts.merged += 1;
+        continue;
+      }
+
+      const identity =
+        selection.action === 'replace' && target
+          ? { id: target.id, order: target.order, createdAt: target.createdAt }
+          : { id: randomUUID(), order: nextOrder++, createdAt: nowIso };
+      const imported: AlertConfig = {
+        ...identity,
+        ...draft,
+        ...withImportedSnapshots(snapshots),
+        updatedAt: nowIso
+      };
+      written.set(imported.id, imported);
+
+      if (selection.action === 'replace' || snapshots?.history) {
+        historyByAlertId[imported.id] = snapshots?.history ?? [];
+      }
+      if (selection.action === 'replace') counts.replaced += 1;
+      else counts.created += 1;
+    }
+
+    const saved = await store.importAlerts([...written.values()], historyByAlertId);
+    tray?.update(saved);
+    return { alerts: saved, ...counts };
+  });
+
+  ipcMain.handle('backups:list', async () => backups.list());
+
+  ipcMain.handle('backups:create', async () => backups.create('manual'));
+
+  ipcMain.handle('backups:diff', async (_, backupId: string) => backups.diff(backupId));
+
+  ipcMain.handle('backups:restore', async (_, request: BackupRestoreRequest) => {
+    const restored = await backups.restore(request);
+    tray?.update(restored);
+    return restored;
+  });
+
   ipcMain.handle('clipboard:write-image', async (_, dataUrl: string) => {
     if (!dataUrl || typeof dataUrl !== 'string') {
       throw new Error('Invalid image payload.');
@@ -422,6 +889,13 @@ const createWindow = (): void => {
     }
   });
 
+  // Closing the window keeps monitoring alive in the tray; quitting goes through the tray menu.
+  mainWindow.on('close', (event) => {
+    if (isQuitting) return;
+    event.preventDefault();
+    mainWindow?.hide();
+  });
+
   const devServerUrl = process.env.VITE_DEV_SERVER_URL;
   if (devServerUrl) {
     void mainWindow.loadURL(devServerUrl);
@@ -431,19 +905,66 @@ const createWindow = (): void => {
 };
 
 app.whenReady().then(async () => {
-  store = new LocalStore(app.getPath('userData'));
+  try {
+    store = new LocalStore(app.getPath('userData'));
+  } catch (error) {
+    // The database was left in place; starting with empty data here would hide a fixable problem.
+    const detail = error instanceof Error ? error.message : 'The local database could not be opened.';
+    dialog.showErrorBox(
+      'Saved data could not be opened',
+      `${detail}\n\nClose any other copy of the app, check that the data folder is writable, then start it again.`
+    );
+    app.exit(1);
+    return;
+  }
+  responseCache = new ResponseCache(app.getPath('userData'));
+  backups = new BackupManager(app.getPath('userData'), store);
+  scheduler = new RefreshScheduler({
+    hasConnections: () => store.hasConnections(),
+    getAlerts: () => store.getAlerts(),
+    refreshAlert: refreshAlertById,
+    onProgress: (event) => {
+      tray?.setRefreshing(event.status.running);
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('scheduler:progress', event);
+      }
+    }
+  });
+  tray = new StatusTray({
+    openDashboard: showDashboard,
+    refreshAll: () => void scheduler.runNow(),
+    quit: () => app.quit()
+  });
+  tray.update(await store.getAlerts());
   registerIpcHandlers();
   createWindow();
+  scheduler.start();
+  backups.start();
 
-  app.on('activate', () => {
-    if (BrowserWindow.getAllWindows().length === 0) {
-      createWindow();
-    }
+  app.on('activate', () => showDashboard());
+});
+
+const shutDown = async (): Promise<void> => {
+  backups?.stop();
+  // Waits for the refresh in flight so nothing writes to the store after it closes.
+  await scheduler?.stop();
+  await responseCache?.flush().catch(() => undefined);
+  store?.close();
+  tray?.destroy();
+  tray = null;
+};
+
+app.on('before-quit', (event) => {
+  isQuitting = true;
+  if (shutdownComplete) return;
+
+  event.preventDefault();
+  shutdownTask ??= shutDown().finally(() => {
+    shutdownComplete = true;
+    app.quit();
   });
 });
 
 app.on('window-all-closed', () => {
-  if (process.platform !== 'darwin') {
-    app.quit();
-  }
+  // Keep running in the tray so scheduled monitoring continues.
 });
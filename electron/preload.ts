@@ -1,13 +1,20 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron';
 
 import type { DesktopApi } from '../src/shared/ipc';
+import type { SchedulerProgressEvent } from '../src/shared/types';
 
 const api: DesktopApi = {
   getInitialData: () => ipcRenderer.invoke('app:get-initial-data'),
-  testConnection: (token?: string) => ipcRenderer.invoke('auth:test-connection', token),
-  saveToken: (token: string) => ipcRenderer.invoke('auth:save-token', token),
-  clearToken: () => ipcRenderer.invoke('auth:clear-token'),
+  dismissStateRecovery: () => ipcRenderer.invoke('state:dismiss-recovery'),
+  revealStateBackup: () => ipcRenderer.invoke('state:reveal-backup'),
+  listConnections: () => ipcRenderer.invoke('connections:list'),
+  testConnection: (input) => ipcRenderer.invoke('connections:test', input),
+  saveConnection: (input) => ipcRenderer.invoke('connections:save', input),
+  deleteConnection: (id) => ipcRenderer.invoke('connections:delete', id),
   getScopeTree: () => ipcRenderer.invoke('scope:get-tree'),
+  getTeamMembers: (teamId, connectionId) => ipcRenderer.invoke('team:get-members', teamId, connectionId),
+  searchTasks: (query) => ipcRenderer.invoke('tasks:search', query),
+  previewTaskRules: (query) => ipcRenderer.invoke('rules:preview', query),
   createAlert: (draft) => ipcRenderer.invoke('alerts:create', draft),
   updateAlert: (id, draft) => ipcRenderer.invoke('alerts:update', id, draft),
   deleteAlert: (id) => ipcRenderer.invoke('alerts:delete', id),
@@ -15,9 +22,37 @@ const api: DesktopApi = {
   reorderAlerts: (ids) => ipcRenderer.invoke('alerts:reorder', ids),
   refreshAlert: (id) => ipcRenderer.invoke('alerts:refresh', id),
   refreshAllAlerts: () => ipcRenderer.invoke('alerts:refresh-all'),
+  getAlertEntries: (id) => ipcRenderer.invoke('alerts:get-entries', id),
+  getSnapshotHistory: (query) => ipcRenderer.invoke('history:get', query),
+  listBackups: () => ipcRenderer.invoke('backups:list'),
+  createBackup: () => ipcRenderer.invoke('backups:create'),
+  getBackupDiff: (backupId) => ipcRenderer.invoke('backups:diff', backupId),
+  restoreBackup: (request) => ipcRenderer.invoke('backups:restore', request),
+  getCacheStats: () => ipcRenderer.invoke('cache:get-stats'),
+  clearCache: () => ipcRenderer.invoke('cache:clear'),
+  getRateLimitStatus: () => ipcRenderer.invoke('ratelimit:get-status'),
+  getSchedulerStatus: () => ipcRenderer.invoke('scheduler:get-status'),
+  runScheduledRefreshNow: () => ipcRenderer.invoke('scheduler:run-now'),
   updateUiPreferences: (prefs) => ipcRenderer.invoke('prefs:update', prefs),
   exportCsv: () => ipcRenderer.invoke('alerts:export-csv'),
-  copyImageToClipboard: (dataUrl) => ipcRenderer.invoke('clipboard:write-image', dataUrl)
+  exportAlerts: (options) => ipcRenderer.invoke('alerts:export', options),
+  previewAlertImport: () => ipcRenderer.invoke('alerts:import-preview'),
+  importAlerts: (selections) => ipcRenderer.invoke('alerts:import', selections),
+  copyImageToClipboard: (dataUrl) => ipcRenderer.invoke('clipboard:write-image', dataUrl),
+  onFocusAlert: (listener) => {
+    const handler = (_: IpcRendererEvent, alertId: string) => listener(alertId);
+    ipcRenderer.on('alerts:focus', handler);
+    return () => {
+      ipcRenderer.removeListener('alerts:focus', handler);
+    };
+  },
+  onSchedulerProgress: (listener) => {
+    const handler = (_: IpcRendererEvent, event: SchedulerProgressEvent) => listener(event);
+    ipcRenderer.on('scheduler:progress', handler);
+    return () => {
+      ipcRenderer.removeListener('scheduler:progress', handler);
+    };
+  }
 };
 
 contextBridge.exposeInMainWorld('clickupMonitor', api);
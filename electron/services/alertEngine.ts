@@ -1,12 +1,77 @@
-import { endOfDay, endOfMonth, startOfDay, startOfMonth } from 'date-fns';
+import {
+  addMonths,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  set,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  type Day
+} from 'date-fns';
+import { TZDate } from '@date-fns/tz';
 
-import type { AlertConfig, AlertSnapshot, AlertStatus, TimeEntry, TimeRange } from '../../src/shared/types';
+import { statusSeverity } from '../../src/shared/status';
+import { createTaskRuleFilter } from '../../src/shared/taskRules';
+import {
+  DEFAULT_FISCAL_YEAR_START_MONTH,
+  DEFAULT_WEEK_STARTS_ON,
+  isPeriodicTimeRange,
+  monthNames,
+  parseDateInput,
+  weekdayNames
+} from '../../src/shared/timeRange';
+import type {
+  AlertConfig,
+  AlertCostSnapshot,
+  AlertEstimateSnapshot,
+  AlertEntryBreakdown,
+  AlertForecast,
+  AlertSnapshot,
+  AlertStatus,
+  BudgetPeriodRecord,
+  EntryBreakdownGroup,
+  PersonBudgetStatus,
+  ScopeBreakdownItem,
+  TaskInfo,
+  TimeEntry,
+  TimeRange
+} from '../../src/shared/types';
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_CURRENCY = 'USD';
 
 const roundHours = (value: number): number => Math.round(value * 100) / 100;
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
 
 const uniqIds = (ids: string[] | undefined): string[] =>
   [...new Set((ids ?? []).map((id) => id.trim()).filter((id) => id.length > 0))];
 
+const uniqTags = (tags: string[] | undefined): Set<string> => new Set(uniqIds(tags).map((tag) => tag.toLowerCase()));
+
+const matchesTagFilter = (tags: string[] | undefined, included: Set<string>, excluded: Set<string>): boolean => {
+  const entryTags = tags ?? [];
+  if (included.size > 0 && !entryTags.some((tag) => included.has(tag))) return false;
+  if (excluded.size > 0 && entryTags.some((tag) => excluded.has(tag))) return false;
+  return true;
+};
+
+const inTimeZone = (date: Date, timeZone: string | undefined): Date =>
+  timeZone ? new TZDate(date.getTime(), timeZone) : date;
+
+const startOfFiscalYear = (alert: AlertConfig, date: Date): Date => {
+  const startMonth = (alert.fiscalYearStartMonth ?? DEFAULT_FISCAL_YEAR_START_MONTH) - 1;
+  const year = date.getMonth() >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+  return startOfMonth(set(date, { year, month: startMonth, date: 1 }));
+};
+
 export const computeTimeRange = (alert: AlertConfig, now = new Date()): TimeRange => {
   if (alert.timeRangeMode === 'none') {
     return {
@@ -15,35 +80,241 @@ export const computeTimeRange = (alert: AlertConfig, now = new Date()): TimeRang
     };
   }
 
+  const date = inTimeZone(now, alert.timeZone);
+
+  if (alert.timeRangeMode === 'weekly') {
+    const weekStartsOn = (alert.weekStartsOn ?? DEFAULT_WEEK_STARTS_ON) as Day;
+    return {
+      startMs: startOfWeek(date, { weekStartsOn }).getTime(),
+      endMs: endOfWeek(date, { weekStartsOn }).getTime()
+    };
+  }
+
   if (alert.timeRangeMode === 'monthly') {
     return {
-      startMs: startOfMonth(now).getTime(),
-      endMs: endOfMonth(now).getTime()
+      startMs: startOfMonth(date).getTime(),
+      endMs: endOfMonth(date).getTime()
+    };
+  }
+
+  if (alert.timeRangeMode === 'quarterly') {
+    return {
+      startMs: startOfQuarter(date).getTime(),
+      endMs: endOfQuarter(date).getTime()
+    };
+  }
+
+  if (alert.timeRangeMode === 'yearly') {
+    return {
+      startMs: startOfYear(date).getTime(),
+      endMs: endOfYear(date).getTime()
+    };
+  }
+
+  if (alert.timeRangeMode === 'fiscalYear') {
+    const start = startOfFiscalYear(alert, date);
+    return {
+      startMs: start.getTime(),
+      endMs: endOfMonth(addMonths(start, 11)).getTime()
+    };
+  }
+
+  if (alert.timeRangeMode === 'fiscalQuarter') {
+    const fiscalStart = startOfFiscalYear(alert, date);
+    const monthsIntoYear = (date.getFullYear() - fiscalStart.getFullYear()) * 12 + date.getMonth() - fiscalStart.getMonth();
+    const start = addMonths(fiscalStart, Math.floor(monthsIntoYear / 3) * 3);
+    return {
+      startMs: start.getTime(),
+      endMs: endOfMonth(addMonths(start, 2)).getTime()
+    };
+  }
+
+  if (alert.timeRangeMode === 'rolling') {
+    if (!alert.rollingDays) return {};
+    return {
+      startMs: startOfDay(subDays(date, alert.rollingDays - 1)).getTime(),
+      endMs: endOfDay(date).getTime()
     };
   }
 
   if (!alert.startDate || !alert.endDate) return {};
 
   return {
-    startMs: startOfDay(new Date(alert.startDate)).getTime(),
-    endMs: endOfDay(new Date(alert.endDate)).getTime()
+    startMs: startOfDay(parseDateInput(alert.startDate, alert.timeZone)).getTime(),
+    endMs: endOfDay(parseDateInput(alert.endDate, alert.timeZone)).getTime()
   };
 };
 
-const resolveStatus = (alert: AlertConfig, percentUsed: number): AlertStatus => {
-  if (!alert.active) return 'inactive';
+const resolveThresholdStatus = (alert: AlertConfig, percentUsed: number): AlertStatus => {
   if (percentUsed >= alert.criticalThresholdPct) return 'red';
   if (percentUsed >= alert.warningThresholdPct) return 'yellow';
   return 'green';
 };
 
+const resolveStatus = (
+  alert: AlertConfig,
+  percentUsed: number,
+  forecast?: AlertForecast,
+  perPerson?: PersonBudgetStatus[]
+): AlertStatus => {
+  if (!alert.active) return 'inactive';
+
+  const personStatus = (perPerson ?? []).reduce<AlertStatus>(
+    (worst, person) => (statusSeverity[person.status] > statusSeverity[worst] ? person.status : worst),
+    'green'
+  );
+  const thresholdStatus = resolveThresholdStatus(alert, percentUsed);
+  const worst = statusSeverity[personStatus] > statusSeverity[thresholdStatus] ? personStatus : thresholdStatus;
+
+  if (worst === 'green' && forecast && forecast.projectedPercent >= alert.criticalThresholdPct) return 'projected';
+  return worst;
+};
+
+const hasCostTracking = (alert: AlertConfig): boolean =>
+  Boolean(alert.budgetAmount || alert.hourlyRate || alert.userRates?.length || alert.tagRates?.length);
+
+// Rate precedence: first matching task tag rate, then the user's rate, then the alert's default rate.
+const resolveHourlyRate = (
+  alert: AlertConfig,
+  entry: TimeEntry,
+  userRates: Map<string, number>,
+  tagRates: Map<string, number>
+): number | undefined => {
+  for (const tag of entry.taskTags ?? []) {
+    const tagRate = tagRates.get(tag);
+    if (tagRate !== undefined) return tagRate;
+  }
+
+  const userRate = entry.userId ? userRates.get(entry.userId) : undefined;
+  return userRate ?? alert.hourlyRate;
+};
+
+const buildCostSnapshot = (alert: AlertConfig, entries: TimeEntry[]): AlertCostSnapshot | undefined => {
+  if (!hasCostTracking(alert)) return undefined;
+
+  const userRates = new Map((alert.userRates ?? []).map((rate) => [rate.key, rate.hourlyRate]));
+  const tagRates = new Map((alert.tagRates ?? []).map((rate) => [rate.key.trim().toLowerCase(), rate.hourlyRate]));
+
+  let costUsed = 0;
+  let unratedHours = 0;
+  for (const entry of entries) {
+    const entryHours = entry.durationMs / HOUR_MS;
+    const rate = resolveHourlyRate(alert, entry, userRates, tagRates);
+    if (rate === undefined) {
+      unratedHours += entryHours;
+    } else {
+      costUsed += entryHours * rate;
+    }
+  }
+
+  const budgetAmount = alert.budgetAmount && alert.budgetAmount > 0 ? alert.budgetAmount : undefined;
+
+  return {
+    currency: alert.currency || DEFAULT_CURRENCY,
+    costUsed: roundMoney(costUsed),
+    budgetAmount,
+    costRemaining: budgetAmount !== undefined ? roundMoney(Math.max(0, budgetAmount - costUsed)) : undefined,
+    overByAmount: budgetAmount !== undefined ? roundMoney(Math.max(0, costUsed - budgetAmount)) : undefined,
+    percentUsed: budgetAmount !== undefined ? roundHours((costUsed / budgetAmount) * 100) : undefined,
+    unratedHours: roundHours(unratedHours)
+  };
+};
+
+const buildPerPersonStatus = (alert: AlertConfig, entries: TimeEntry[]): PersonBudgetStatus[] | undefined => {
+  const capHours = alert.perPersonCapHours;
+  if (!capHours || capHours <= 0) return undefined;
+
+  const people = new Map<string, { userName: string; hours: number }>();
+  for (const entry of entries) {
+    const userId = entry.userId ?? 'no-user';
+    const person = people.get(userId) ?? { userName: entry.userName ?? entry.userId ?? 'Unknown user', hours: 0 };
+    person.hours += entry.durationMs / HOUR_MS;
+    people.set(userId, person);
+  }
+
+  return [...people.entries()]
+    .map(([userId, person]) => {
+      const hoursUsed = roundHours(person.hours);
+      const percentUsed = roundHours((hoursUsed / capHours) * 100);
+      return {
+        userId,
+        userName: person.userName,
+        hoursUsed,
+        capHours,
+        percentUsed,
+        status: resolveThresholdStatus(alert, percentUsed)
+      };
+    })
+    .sort((a, b) => b.percentUsed - a.percentUsed);
+};
+
+// Linear burn-rate projection for bounded periods, based on hours logged between period start and now.
+const buildForecast = (
+  alert: AlertConfig,
+  entries: TimeEntry[],
+  hoursUsed: number,
+  budget: number,
+  now: Date
+): AlertForecast | undefined => {
+  if (!isPeriodicTimeRange(alert.timeRangeMode)) return undefined;
+
+  const { startMs, endMs } = computeTimeRange(alert, now);
+  if (startMs === undefined || endMs === undefined || endMs <= startMs) return undefined;
+
+  const observedUntilMs = Math.min(now.getTime(), endMs);
+  const elapsedMs = observedUntilMs - startMs;
+  if (elapsedMs <= 0) return undefined;
+
+  const observedHours = entries.reduce((sum, entry) => {
+    if (entry.startMs === undefined || entry.startMs < startMs || entry.startMs > observedUntilMs) return sum;
+    return sum + entry.durationMs / HOUR_MS;
+  }, 0);
+
+  const hoursPerMs = observedHours / elapsedMs;
+  const projectedHours = hoursUsed + hoursPerMs * (endMs - observedUntilMs);
+
+  let projectedExhaustionAt: string | undefined;
+  if (hoursUsed < budget && hoursPerMs > 0) {
+    const exhaustionMs = observedUntilMs + (budget - hoursUsed) / hoursPerMs;
+    if (exhaustionMs <= endMs) {
+      projectedExhaustionAt = new Date(exhaustionMs).toISOString();
+    }
+  }
+
+  return {
+    burnRateHoursPerDay: roundHours(hoursPerMs * DAY_MS),
+    projectedHours: roundHours(projectedHours),
+    projectedPercent: roundHours(budget > 0 ? (projectedHours / budget) * 100 : 0),
+    periodEndsAt: new Date(endMs).toISOString(),
+    projectedExhaustionAt
+  };
+};
+
+const resolveTimeRangeLabel = (alert: AlertConfig): string => {
+  const fiscalStartMonth = monthNames[(alert.fiscalYearStartMonth ?? DEFAULT_FISCAL_YEAR_START_MONTH) - 1];
+
+  if (alert.timeRangeMode === 'weekly') {
+    return `Current week (starts ${weekdayNames[alert.weekStartsOn ?? DEFAULT_WEEK_STARTS_ON]})`;
+  }
+  if (alert.timeRangeMode === 'monthly') return 'Current month';
+  if (alert.timeRangeMode === 'quarterly') return 'Current quarter';
+  if (alert.timeRangeMode === 'yearly') return 'Current year';
+  if (alert.timeRangeMode === 'fiscalQuarter') return `Current fiscal quarter (FY starts ${fiscalStartMonth})`;
+  if (alert.timeRangeMode === 'fiscalYear') return `Current fiscal year (starts ${fiscalStartMonth})`;
+  if (alert.timeRangeMode === 'rolling') return `Last ${alert.rollingDays ?? 'n/a'} days`;
+  if (alert.timeRangeMode === 'custom') {
+    return `Custom (${alert.startDate ?? 'n/a'} to ${alert.endDate ?? 'n/a'})`;
+  }
+  return 'Cumulative';
+};
+
 const resolveScopeSummary = (alert: AlertConfig): string => {
-  const modeLabel =
-    alert.timeRangeMode === 'monthly'
-      ? 'Current month'
-      : alert.timeRangeMode === 'custom'
-        ? `Custom (${alert.startDate ?? 'n/a'} to ${alert.endDate ?? 'n/a'})`
-        : 'Cumulative';
+  const rangeLabel = resolveTimeRangeLabel(alert);
+  const modeLabel = alert.timeZone && alert.timeRangeMode !== 'none' ? `${rangeLabel} (${alert.timeZone})` : rangeLabel;
+
+  if (alert.type === 'space') {
+    return `Space: ${alert.spaceName ?? alert.spaceId ?? 'Unknown'} | ${modeLabel}`;
+  }
 
   if (alert.type === 'folder') {
     return `Folder: ${alert.folderName ?? alert.folderId ?? 'Unknown'} | ${modeLabel}`;
@@ -53,19 +324,121 @@ const resolveScopeSummary = (alert: AlertConfig): string => {
     return `List: ${alert.listName ?? alert.listId ?? 'Unknown'} | ${modeLabel}`;
   }
 
+  if (alert.type === 'multi') {
+    const scopes = alert.scopes ?? [];
+    const names = scopes.slice(0, 3).map((scope) => scope.name ?? scope.id);
+    const more = scopes.length > 3 ? ` +${scopes.length - 3} more` : '';
+    return `Multi (${scopes.length} scopes): ${names.join(', ')}${more} | ${modeLabel}`;
+  }
+
   const scopeName =
-    alert.customScopeType === 'folder'
-      ? alert.folderName ?? alert.folderId ?? 'Unknown folder'
-      : alert.listName ?? alert.listId ?? 'Unknown list';
+    alert.customScopeType === 'space'
+      ? alert.spaceName ?? alert.spaceId ?? 'Unknown space'
+      : alert.customScopeType === 'folder'
+        ? alert.folderName ?? alert.folderId ?? 'Unknown folder'
+        : alert.listName ?? alert.listId ?? 'Unknown list';
 
   return `Custom ${alert.customScopeType ?? 'scope'}: ${scopeName} | ${modeLabel}`;
 };
 
-export const applyEntryFilters = (alert: AlertConfig, entries: TimeEntry[]): TimeEntry[] => {
+const resolveBaseBudget = (alert: AlertConfig, estimate?: AlertEstimateSnapshot): number =>
+  alert.budgetSource === 'estimates' ? estimate?.estimatedHours ?? 0 : alert.budgetHours;
+
+const resolveCarriedInHours = (alert: AlertConfig): number => {
+  if (!alert.recurringPeriod || !alert.periodLedger?.length) return 0;
+  return alert.periodLedger[alert.periodLedger.length - 1].carriedOutHours;
+};
+
+const resolveCarryOver = (alert: AlertConfig, closingBalanceHours: number): number => {
+  const mode = alert.rolloverMode ?? 'none';
+
+  if (closingBalanceHours > 0 && (mode === 'unused' || mode === 'both')) {
+    return roundHours(Math.min(closingBalanceHours, alert.rolloverCapHours ?? closingBalanceHours));
+  }
+  if (closingBalanceHours < 0 && (mode === 'overspend' || mode === 'both')) {
+    return closingBalanceHours;
+  }
+  return 0;
+};
+
+export const closeBudgetPeriod = (
+  alert: AlertConfig,
+  period: { startMs: number; endMs: number },
+  entries: TimeEntry[],
+  carriedInHours: number,
+  tasks?: TaskInfo[],
+  now = new Date()
+): BudgetPeriodRecord => {
+  const hoursUsed = roundHours(entries.reduce((sum, entry) => sum + entry.durationMs / HOUR_MS, 0));
+  // Same budget the live snapshot used, so a closed period matches what the card showed.
+  const budgetHours = roundHours(resolveBaseBudget(alert, tasks ? buildEstimateSnapshot(tasks, entries) : undefined));
+  const closingBalanceHours = roundHours(budgetHours + carriedInHours - hoursUsed);
+
+  return {
+    periodStart: new Date(period.startMs).toISOString(),
+    periodEnd: new Date(period.endMs).toISOString(),
+    budgetHours,
+    budgetSource: alert.budgetSource ?? 'manual',
+    carriedInHours,
+    hoursUsed,
+    closingBalanceHours,
+    carriedOutHours: resolveCarryOver(alert, closingBalanceHours),
+    closedAt: now.toISOString()
+  };
+};
+
+const buildScopeBreakdown = (alert: AlertConfig, entries: TimeEntry[]): ScopeBreakdownItem[] | undefined => {
+  if (alert.type !== 'multi' || !alert.scopes?.length) return undefined;
+
+  return alert.scopes.map((scope) => {
+    const scopeEntries = entries.filter((entry) => entry.scopeId === scope.id);
+    return {
+      type: scope.type,
+      id: scope.id,
+      name: scope.name ?? scope.id,
+      hours: roundHours(scopeEntries.reduce((sum, entry) => sum + entry.durationMs / HOUR_MS, 0)),
+      entryCount: scopeEntries.length
+    };
+  });
+};
+
+export type TaskLookup = Map<string, TaskInfo>;
+
+export const applyEntryFilters = (
+  alert: AlertConfig,
+  entries: TimeEntry[],
+  taskLookup?: TaskLookup,
+  now = new Date(),
+  rangeStartMs?: number
+): TimeEntry[] => {
+  const matchesTaskRules = alert.taskRules?.length ? createTaskRuleFilter(alert.taskRules) : undefined;
+  const matchesNameRules = alert.taskRules?.length
+    ? createTaskRuleFilter(alert.taskRules.filter((rule) => rule.field === 'name'))
+    : undefined;
   const excluded = new Set(uniqIds(alert.excludedTaskIds));
   const includeOnly = new Set(uniqIds(alert.includeOnlyTaskIds));
+  const userFilterMode = alert.userFilterMode ?? 'all';
+  const userIds = new Set(uniqIds(alert.userIds));
+  const billableFilter = alert.billableFilter ?? 'all';
+  const includedTaskTags = uniqTags(alert.includedTaskTags);
+  const excludedTaskTags = uniqTags(alert.excludedTaskTags);
+  const includedEntryTags = uniqTags(alert.includedEntryTags);
+  const excludedEntryTags = uniqTags(alert.excludedEntryTags);
+
+  const filtered = entries.filter((entry) => {
+    if (entry.isRunning && alert.excludeRunningTimers) return false;
+    if (userFilterMode === 'include' && (!entry.userId || !userIds.has(entry.userId))) return false;
+    if (userFilterMode === 'exclude' && entry.userId && userIds.has(entry.userId)) return false;
+    if (billableFilter === 'billable' && entry.billable !== true) return false;
+    if (billableFilter === 'nonBillable' && entry.billable === true) return false;
+    if (!matchesTagFilter(entry.taskTags, includedTaskTags, excludedTaskTags)) return false;
+    if (!matchesTagFilter(entry.tags, includedEntryTags, excludedEntryTags)) return false;
+
+    // Tasks outside the scope lists have no status or custom fields, so only name rules apply to them.
+    const task = taskLookup?.get(entry.taskId ?? '');
+    const matchesRules = task ? matchesTaskRules : matchesNameRules;
+    if (matchesRules && !matchesRules(task ?? { name: entry.taskName })) return false;
 
-  return entries.filter((entry) => {
     if (!entry.taskId) {
       return includeOnly.size === 0;
     }
@@ -74,26 +447,125 @@ export const applyEntryFilters = (alert: AlertConfig, entries: TimeEntry[]): Tim
     if (includeOnly.size > 0 && !includeOnly.has(entry.taskId)) return false;
     return true;
   });
+
+  // Running timers count from their start, or the range start if later, up to this refresh.
+  return filtered.map((entry) =>
+    entry.isRunning && entry.startMs !== undefined
+      ? { ...entry, durationMs: Math.max(0, now.getTime() - Math.max(entry.startMs, rangeStartMs ?? entry.startMs)) }
+      : entry
+  );
+};
+
+export const buildTaskRuleWarning = (
+  alert: AlertConfig,
+  entries: TimeEntry[],
+  taskLookup?: TaskLookup
+): string | undefined => {
+  if (!alert.taskRules?.some((rule) => rule.field !== 'name')) return undefined;
+  const unresolved = entries.filter((entry) => !taskLookup?.has(entry.taskId ?? '')).length;
+  if (unresolved === 0) return undefined;
+  const subject = unresolved === 1 ? '1 time entry is' : `${unresolved} time entries are`;
+  return `${subject} on tasks outside this scope, so only name rules were applied to them.`;
+};
+
+export const applyTaskFilters = (alert: AlertConfig, tasks: TaskInfo[]): TaskInfo[] => {
+  const excluded = new Set(uniqIds(alert.excludedTaskIds));
+  const includeOnly = new Set(uniqIds(alert.includeOnlyTaskIds));
+  const includedTaskTags = uniqTags(alert.includedTaskTags);
+  const excludedTaskTags = uniqTags(alert.excludedTaskTags);
+  const matchesTaskRules = createTaskRuleFilter(alert.taskRules);
+
+  return tasks.filter((task) => {
+    if (excluded.has(task.id)) return false;
+    if (includeOnly.size > 0 && !includeOnly.has(task.id)) return false;
+    if (!matchesTaskRules(task)) return false;
+    return matchesTagFilter(task.tags, includedTaskTags, excludedTaskTags);
+  });
 };
 
-export const buildSnapshot = (alert: AlertConfig, entries: TimeEntry[], warningMessage?: string): AlertSnapshot => {
-  const totalHours = roundHours(entries.reduce((sum, entry) => sum + entry.durationMs / 3_600_000, 0));
-  const budget = alert.budgetHours;
-  const rawPercent = budget > 0 ? (totalHours / budget) * 100 : 0;
+const MAX_TOP_OVERRUNS = 5;
+
+const buildEstimateSnapshot = (tasks: TaskInfo[], entries: TimeEntry[]): AlertEstimateSnapshot => {
+  const trackedByTask = new Map<string, number>();
+  for (const entry of entries) {
+    if (!entry.taskId) continue;
+    trackedByTask.set(entry.taskId, (trackedByTask.get(entry.taskId) ?? 0) + entry.durationMs / HOUR_MS);
+  }
+
+  const estimatedTasks = tasks.filter((task) => (task.timeEstimateMs ?? 0) > 0);
+  const totalTracked = [...trackedByTask.values()].reduce((sum, value) => sum + value, 0);
+  const trackedOnEstimated = estimatedTasks.reduce((sum, task) => sum + (trackedByTask.get(task.id) ?? 0), 0);
+
+  const overruns = estimatedTasks
+    .map((task) => {
+      const estimateHours = (task.timeEstimateMs ?? 0) / HOUR_MS;
+      const trackedHours = trackedByTask.get(task.id) ?? 0;
+      return {
+        taskId: task.id,
+        taskName: task.name,
+        estimateHours: roundHours(estimateHours),
+        trackedHours: roundHours(trackedHours),
+        overByHours: roundHours(trackedHours - estimateHours)
+      };
+    })
+    .filter((task) => task.overByHours > 0)
+    .sort((a, b) => b.overByHours - a.overByHours);
+
+  return {
+    estimatedHours: roundHours(estimatedTasks.reduce((sum, task) => sum + (task.timeEstimateMs ?? 0) / HOUR_MS, 0)),
+    taskCount: tasks.length,
+    estimatedTaskCount: estimatedTasks.length,
+    trackedOnEstimatedHours: roundHours(trackedOnEstimated),
+    coveragePercent: roundHours(totalTracked > 0 ? (trackedOnEstimated / totalTracked) * 100 : 0),
+    overrunningTaskCount: overruns.length,
+    topOverruns: overruns.slice(0, MAX_TOP_OVERRUNS)
+  };
+};
+
+export const buildSnapshot = (
+  alert: AlertConfig,
+  entries: TimeEntry[],
+  tasks?: TaskInfo[],
+  warningMessage?: string,
+  now = new Date()
+): AlertSnapshot => {
+  const totalHours = roundHours(entries.reduce((sum, entry) => sum + entry.durationMs / HOUR_MS, 0));
+  const runningEntries = entries.filter((entry) => entry.isRunning);
+  const liveHours = roundHours(runningEntries.reduce((sum, entry) => sum + entry.durationMs / HOUR_MS, 0));
+  const estimate = tasks ? buildEstimateSnapshot(tasks, entries) : undefined;
+  const baseBudget = resolveBaseBudget(alert, estimate);
+  // Unused hours carried in raise the budget; carried overspend counts as hours already used.
+  const carriedInHours = resolveCarriedInHours(alert);
+  const budget = roundHours(baseBudget + Math.max(0, carriedInHours));
+  const countedHours = totalHours + Math.max(0, -carriedInHours);
+  const rawPercent = budget > 0 ? (countedHours / budget) * 100 : 0;
   const percentUsed = roundHours(rawPercent);
-  const remainingHours = roundHours(Math.max(0, budget - totalHours));
-  const overByHours = roundHours(Math.max(0, totalHours - budget));
+  const remainingHours = roundHours(Math.max(0, budget - countedHours));
+  const overByHours = roundHours(Math.max(0, countedHours - budget));
+  const forecast = alert.active ? buildForecast(alert, entries, countedHours, budget, now) : undefined;
+  const perPerson = buildPerPersonStatus(alert, entries);
+  const cost = buildCostSnapshot(alert, entries);
+  const statusPercent = Math.max(percentUsed, cost?.percentUsed ?? 0);
 
   return {
-    status: resolveStatus(alert, percentUsed),
+    status: resolveStatus(alert, statusPercent, forecast, perPerson),
     hoursUsed: totalHours,
     budgetHours: budget,
     remainingHours,
     overByHours,
     percentUsed,
     entryCount: entries.length,
-    lastRefreshedAt: new Date().toISOString(),
+    lastRefreshedAt: now.toISOString(),
     scopeSummary: resolveScopeSummary(alert),
+    forecast,
+    perPerson,
+    cost,
+    carriedInHours: carriedInHours !== 0 ? carriedInHours : undefined,
+    liveHours: runningEntries.length > 0 ? liveHours : undefined,
+    runningTimerCount: runningEntries.length > 0 ? runningEntries.length : undefined,
+    scopeBreakdown: buildScopeBreakdown(alert, entries),
+    estimate,
+    timeZone: alert.timeZone,
     warningMessage
   };
 };
@@ -101,12 +573,70 @@ export const buildSnapshot = (alert: AlertConfig, entries: TimeEntry[], warningM
 export const buildErrorSnapshot = (alert: AlertConfig, errorMessage: string): AlertSnapshot => ({
   status: 'error',
   hoursUsed: alert.lastSnapshot?.hoursUsed ?? 0,
-  budgetHours: alert.budgetHours,
+  // Keeps the last effective budget, which includes estimates and carried-in hours.
+  budgetHours: alert.lastSnapshot?.budgetHours ?? alert.budgetHours,
   remainingHours: alert.lastSnapshot?.remainingHours ?? alert.budgetHours,
   overByHours: alert.lastSnapshot?.overByHours ?? 0,
   percentUsed: alert.lastSnapshot?.percentUsed ?? 0,
   entryCount: alert.lastSnapshot?.entryCount ?? 0,
   lastRefreshedAt: new Date().toISOString(),
   scopeSummary: alert.lastSnapshot?.scopeSummary ?? resolveScopeSummary(alert),
+  forecast: alert.lastSnapshot?.forecast,
+  perPerson: alert.lastSnapshot?.perPerson,
+  cost: alert.lastSnapshot?.cost,
+  carriedInHours: alert.lastSnapshot?.carriedInHours,
+  scopeBreakdown: alert.lastSnapshot?.scopeBreakdown,
+  estimate: alert.lastSnapshot?.estimate,
+  timeZone: alert.lastSnapshot?.timeZone,
   errorMessage
 });
+
+const groupEntries = (
+  entries: TimeEntry[],
+  keyOf: (entry: TimeEntry) => { key: string; label: string }
+): EntryBreakdownGroup[] => {
+  const groups = new Map<string, EntryBreakdownGroup>();
+
+  for (const entry of entries) {
+    const { key, label } = keyOf(entry);
+    const group = groups.get(key) ?? { key, label, hours: 0, entryCount: 0 };
+    group.hours += entry.durationMs / HOUR_MS;
+    group.entryCount += 1;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map((group) => ({ ...group, hours: roundHours(group.hours) }))
+    .sort((a, b) => b.hours - a.hours);
+};
+
+export const buildEntryBreakdown = (alert: AlertConfig, entries: TimeEntry[]): AlertEntryBreakdown => ({
+  alertId: alert.id,
+  fetchedAt: new Date().toISOString(),
+  totalHours: roundHours(entries.reduce((sum, entry) => sum + entry.durationMs / HOUR_MS, 0)),
+  entries: [...entries]
+    .sort((a, b) => (b.startMs ?? 0) - (a.startMs ?? 0))
+    .map((entry) => ({
+      id: entry.id,
+      taskId: entry.taskId,
+      taskName: entry.taskName,
+      userId: entry.userId,
+      userName: entry.userName,
+      description: entry.description,
+      startMs: entry.startMs,
+      hours: roundHours(entry.durationMs / HOUR_MS),
+      isRunning: entry.isRunning
+    })),
+  byTask: groupEntries(entries, (entry) => ({
+    key: entry.taskId ?? 'no-task',
+    label: entry.taskName ?? entry.taskId ?? 'No task'
+  })),
+  byUser: groupEntries(entries, (entry) => ({
+    key: entry.userId ?? 'no-user',
+    label: entry.userName ?? entry.userId ?? 'Unknown user'
+  })),
+  byDay: groupEntries(entries, (entry) => {
+    const day = entry.startMs !== undefined ? format(inTimeZone(new Date(entry.startMs), alert.timeZone), 'yyyy-MM-dd') : 'unknown';
+    return { key: day, label: day === 'unknown' ? 'Unknown date' : day };
+  }).sort((a, b) => b.key.localeCompare(a.key))
+});
@@ -0,0 +1,270 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { z } from 'zod';
+
+import { resolveAlertScopeType } from '../../src/shared/scopeTree';
+import type {
+  AlertConfig,
+  AlertDraft,
+  AlertImportConflict,
+  AlertImportConflictReason,
+  AlertImportItem,
+  AlertSnapshot,
+  AlertTransferFormat,
+  AlertTransferSnapshots,
+  ClickUpConnection
+} from '../../src/shared/types';
+import { isValidTimeZone } from '../../src/shared/timeRange';
+import { alertDraftSchema } from '../../src/shared/validation';
+
+const EXPORT_KIND = 'clickup-budget-alerts';
+const EXPORT_VERSION = 1;
+// Matches the history the store keeps per alert.
+const MAX_IMPORTED_HISTORY_ENTRIES = 2000;
+
+type AlertScopeFields = Pick<
+  AlertConfig,
+  'teamId' | 'type' | 'customScopeType' | 'spaceId' | 'folderId' | 'listId' | 'scopes'
+>;
+
+interface AlertExportFile {
+  kind: string;
+  version: number;
+  exportedAt: string;
+  alerts: Array<AlertDraft & { snapshots?: AlertTransferSnapshots }>;
+}
+
+// Imported snapshots are rendered and fed back into refreshes, so every field is checked and unknown keys dropped.
+const hoursSchema = z.number().finite();
+const countSchema = z.number().int().min(0);
+const dateSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+const statusSchema = z.enum(['green', 'projected', 'yellow', 'red', 'inactive', 'error']);
+
+const snapshotSchema = z.object({
+  status: statusSchema,
+  hoursUsed: hoursSchema,
+  budgetHours: hoursSchema,
+  remainingHours: hoursSchema,
+  overByHours: hoursSchema,
+  percentUsed: hoursSchema,
+  entryCount: countSchema,
+  lastRefreshedAt: dateSchema,
+  scopeSummary: z.string().max(1000),
+  forecast: z
+    .object({
+      burnRateHoursPerDay: hoursSchema,
+      projectedHours: hoursSchema,
+      projectedPercent: hoursSchema,
+      periodEndsAt: dateSchema,
+      projectedExhaustionAt: dateSchema.optional()
+    })
+    .optional(),
+  perPerson: z
+    .array(
+      z.object({
+        userId: z.string(),
+        userName: z.string(),
+        hoursUsed: hoursSchema,
+        capHours: hoursSchema,
+        percentUsed: hoursSchema,
+        status: statusSchema
+      })
+    )
+    .optional(),
+  cost: z
+    .object({
+      currency: z.string().max(10),
+      costUsed: hoursSchema,
+      budgetAmount: hoursSchema.optional(),
+      costRemaining: hoursSchema.optional(),
+      overByAmount: hoursSchema.optional(),
+      percentUsed: hoursSchema.optional(),
+      unratedHours: hoursSchema
+    })
+    .optional(),
+  carriedInHours: hoursSchema.optional(),
+  liveHours: hoursSchema.optional(),
+  runningTimerCount: countSchema.optional(),
+  scopeBreakdown: z
+    .array(
+      z.object({
+        type: z.enum(['folder', 'list']),
+        id: z.string(),
+        name: z.string(),
+        hours: hoursSchema,
+        entryCount: countSchema
+      })
+    )
+    .optional(),
+  estimate: z
+    .object({
+      estimatedHours: hoursSchema,
+      taskCount: countSchema,
+      estimatedTaskCount: countSchema,
+      trackedOnEstimatedHours: hoursSchema,
+      coveragePercent: hoursSchema,
+      overrunningTaskCount: countSchema,
+      topOverruns: z.array(
+        z.object({
+          taskId: z.string(),
+          taskName: z.string(),
+          estimateHours: hoursSchema,
+          trackedHours: hoursSchema,
+          overByHours: hoursSchema
+        })
+      )
+    })
+    .optional(),
+  timeZone: z.string().refine(isValidTimeZone, 'Invalid timezone').optional(),
+  warningMessage: z.string().max(1000).optional(),
+  errorMessage: z.string().max(1000).optional()
+});
+
+const periodRecordSchema = z.object({
+  periodStart: dateSchema,
+  periodEnd: dateSchema,
+  budgetHours: hoursSchema,
+  budgetSource: z.enum(['manual', 'estimates']).optional(),
+  carriedInHours: hoursSchema,
+  hoursUsed: hoursSchema,
+  closingBalanceHours: hoursSchema,
+  carriedOutHours: hoursSchema,
+  closedAt: dateSchema
+});
+
+const transferSnapshotsSchema = z.object({
+  lastRefreshedAt: dateSchema.optional(),
+  lastSnapshot: snapshotSchema.optional(),
+  currentPeriodStart: dateSchema.optional(),
+  periodLedger: z.array(periodRecordSchema).optional(),
+  history: z.array(snapshotSchema).max(MAX_IMPORTED_HISTORY_ENTRIES).optional()
+});
+
+export const parseTransferSnapshots = (raw: unknown): AlertTransferSnapshots | undefined => {
+  const parsed = transferSnapshotsSchema.safeParse(raw);
+  return parsed.success ? (parsed.data as AlertTransferSnapshots) : undefined;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+export const detectTransferFormat = (filePath: string): AlertTransferFormat =>
+  /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json';
+
+const toExportedAlert = (
+  alert: AlertConfig,
+  history: AlertSnapshot[] | undefined
+): AlertDraft & { snapshots?: AlertTransferSnapshots } => {
+  const { id, order, createdAt, updatedAt, lastRefreshedAt, lastSnapshot, currentPeriodStart, periodLedger, ...definition } =
+    alert;
+  if (!history) return definition;
+  return { ...definition, snapshots: { lastRefreshedAt, lastSnapshot, currentPeriodStart, periodLedger, history } };
+};
+
+// Snapshot history is only passed in when the export should carry snapshots.
+export const serializeAlertExport = (
+  alerts: AlertConfig[],
+  format: AlertTransferFormat,
+  historyByAlertId?: Record<string, AlertSnapshot[]>
+): string => {
+  const file: AlertExportFile = {
+    kind: EXPORT_KIND,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    alerts: alerts.map((alert) => toExportedAlert(alert, historyByAlertId ? historyByAlertId[alert.id] ?? [] : undefined))
+  };
+  // JSON.stringify round-trip drops undefined fields so both formats carry the same keys.
+  const plain = JSON.parse(JSON.stringify(file)) as AlertExportFile;
+  return format === 'yaml' ? stringifyYaml(plain) : `${JSON.stringify(plain, null, 2)}\n`;
+};
+
+export const parseAlertExport = (
+  content: string,
+  format: AlertTransferFormat
+): { exportedAt?: string; alerts: unknown[] } => {
+  let parsed: unknown;
+  try {
+    parsed = format === 'yaml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : 'unknown error';
+    throw new Error(`Unable to read the ${format.toUpperCase()} file: ${detail}`);
+  }
+
+  // A bare list of alert definitions is accepted as well as a full export file.
+  if (Array.isArray(parsed)) return { alerts: parsed };
+
+  const file = asRecord(parsed);
+  if (!Array.isArray(file.alerts)) {
+    throw new Error('The file does not contain an alerts list.');
+  }
+  if (typeof file.version === 'number' && file.version > EXPORT_VERSION) {
+    throw new Error(`The file was exported by a newer version of this app (format ${file.version}).`);
+  }
+
+  return {
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : undefined,
+    alerts: file.alerts
+  };
+};
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+const scopeKey = (alert: AlertScopeFields): string => {
+  if (alert.type === 'multi') {
+    const refs = (alert.scopes ?? []).map((scope) => `${scope.type}:${scope.id}`).sort();
+    return `${alert.teamId}|multi|${refs.join(',')}`;
+  }
+
+  const scopeType = resolveAlertScopeType(alert);
+  const scopeId = scopeType === 'space' ? alert.spaceId : scopeType === 'folder' ? alert.folderId : alert.listId;
+  return `${alert.teamId}|${scopeType}|${scopeId}`;
+};
+
+const findConflict = (draft: AlertDraft, alerts: AlertConfig[]): AlertImportConflict | undefined => {
+  const name = normalizeName(draft.name);
+  const scope = scopeKey(draft);
+  // A name match is the likelier "same alert", so it wins over a scope-only match.
+  const target =
+    alerts.find((alert) => normalizeName(alert.name) === name) ?? alerts.find((alert) => scopeKey(alert) === scope);
+  if (!target) return undefined;
+
+  const reasons: AlertImportConflictReason[] = [];
+  if (normalizeName(target.name) === name) reasons.push('name');
+  if (scopeKey(target) === scope) reasons.push('scope');
+  return { alertId: target.id, alertName: target.name, reasons };
+};
+
+const formatIssuePath = (path: Array<string | number>): string => (path.length > 0 ? `${path.join('.')}: ` : '');
+
+export const buildImportPreview = (
+  rawAlerts: unknown[],
+  existing: AlertConfig[],
+  connections: ClickUpConnection[]
+): AlertImportItem[] =>
+  rawAlerts.map((raw, index) => {
+    const { snapshots: rawSnapshots, ...definition } = asRecord(raw);
+    const name = typeof definition.name === 'string' && definition.name.trim() ? definition.name.trim() : `Alert ${index + 1}`;
+
+    const parsedDraft = alertDraftSchema.safeParse(definition);
+    if (!parsedDraft.success) {
+      return {
+        index,
+        name,
+        errors: parsedDraft.error.issues.map((issue) => `${formatIssuePath(issue.path)}${issue.message}`),
+        warnings: []
+      };
+    }
+
+    const draft = parsedDraft.data as AlertDraft;
+    const warnings: string[] = [];
+    if (draft.connectionId && !connections.some((connection) => connection.id === draft.connectionId)) {
+      draft.connectionId = undefined;
+      warnings.push('Its ClickUp connection is not set up here. It will use the first connection unless merged.');
+    }
+    let snapshots: AlertTransferSnapshots | undefined;
+    if (rawSnapshots !== undefined) {
+      snapshots = parseTransferSnapshots(rawSnapshots);
+      if (!snapshots) warnings.push('Snapshot data is malformed and will not be imported.');
+    }
+
+    return { index, name, draft, snapshots, conflict: findConflict(draft, existing), errors: [], warnings };
+  });
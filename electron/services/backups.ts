@@ -0,0 +1,227 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import type {
+  AlertConfig,
+  AlertSnapshot,
+  BackupAlertDiff,
+  BackupDiff,
+  BackupInfo,
+  BackupReason,
+  BackupRestoreRequest,
+  PersistedState
+} from '../../src/shared/types';
+import { migrateState } from './migrations';
+import type { LocalStore } from './storage';
+
+const BACKUP_DIRECTORY_NAME = 'backups';
+const MAX_BACKUPS = 30;
+// Every backup carries the full snapshot history, so the count alone does not bound disk use.
+const MAX_BACKUP_TOTAL_BYTES = 100 * 1024 * 1024;
+const BACKUP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+const backupReasons: BackupReason[] = ['scheduled', 'manual', 'beforeDelete', 'beforeImport', 'beforeRestore'];
+const backupFilePattern = /^backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z-([a-zA-Z]+)\.json$/;
+
+// Refresh output changes every run; only the alert definition decides whether a backup is new or differs.
+const runtimeFields = new Set<keyof AlertConfig>([
+  'order',
+  'updatedAt',
+  'lastRefreshedAt',
+  'lastSnapshot',
+  'currentPeriodStart',
+  'periodLedger'
+]);
+
+type BackupFile = PersistedState & { backupReason: BackupReason; backupCreatedAt: string };
+
+const parseBackupFileName = (fileName: string): Pick<BackupInfo, 'id' | 'createdAt' | 'reason'> | undefined => {
+  const match = backupFilePattern.exec(fileName);
+  if (!match) return undefined;
+
+  const [, date, hour, minute, second, millis, reason] = match;
+  if (!backupReasons.includes(reason as BackupReason)) return undefined;
+  return { id: fileName, createdAt: `${date}T${hour}:${minute}:${second}.${millis}Z`, reason: reason as BackupReason };
+};
+
+const definitionOf = (alert: AlertConfig): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(alert).filter(([key, value]) => !runtimeFields.has(key as keyof AlertConfig) && value !== undefined)
+  );
+
+const fingerprint = (alerts: AlertConfig[]): string =>
+  JSON.stringify([...alerts].sort((a, b) => a.id.localeCompare(b.id)).map(definitionOf));
+
+const changedFields = (backup: AlertConfig, current: AlertConfig): string[] => {
+  const before = definitionOf(backup);
+  const after = definitionOf(current);
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys.filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key])).sort();
+};
+
+const diffAlerts = (backupAlerts: AlertConfig[], currentAlerts: AlertConfig[]): BackupAlertDiff[] => {
+  const currentById = new Map(currentAlerts.map((alert) => [alert.id, alert]));
+  const backupIds = new Set(backupAlerts.map((alert) => alert.id));
+
+  const fromBackup = backupAlerts.map((alert): BackupAlertDiff => {
+    const current = currentById.get(alert.id);
+    if (!current) return { alertId: alert.id, name: alert.name, change: 'removed', changedFields: [] };
+
+    const fields = changedFields(alert, current);
+    return {
+      alertId: alert.id,
+      name: alert.name,
+      change: fields.length > 0 ? 'changed' : 'unchanged',
+      changedFields: fields
+    };
+  });
+  const added = currentAlerts
+    .filter((alert) => !backupIds.has(alert.id))
+    .map((alert): BackupAlertDiff => ({ alertId: alert.id, name: alert.name, change: 'added', changedFields: [] }));
+
+  return [...fromBackup, ...added];
+};
+
+export class BackupManager {
+  private readonly directory: string;
+  private readonly store: LocalStore;
+  private timer?: NodeJS.Timeout;
+  private lastFingerprint?: string;
+
+  constructor(userDataPath: string, store: LocalStore) {
+    this.directory = path.join(userDataPath, BACKUP_DIRECTORY_NAME);
+    this.store = store;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.createScheduled(), BACKUP_INTERVAL_MS);
+    void this.createScheduled();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async create(reason: BackupReason): Promise<BackupInfo> {
+    const state = await this.store.readState();
+    const createdAt = new Date().toISOString();
+    const fileName = `backup-${createdAt.replace(/[:.]/g, '-')}-${reason}.json`;
+    const filePath = path.join(this.directory, fileName);
+    // Connections and their tokens stay out of backups; restoring never touches them.
+    const file: BackupFile = {
+      ...state,
+      connections: undefined,
+      recovery: undefined,
+      backupReason: reason,
+      backupCreatedAt: createdAt
+    };
+    const content = JSON.stringify(file);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, content, 'utf8');
+    await fs.rename(tmpPath, filePath);
+
+    this.lastFingerprint = fingerprint(state.alerts);
+    await this.prune();
+    return { id: fileName, createdAt, reason, sizeBytes: Buffer.byteLength(content, 'utf8') };
+  }
+
+  async list(): Promise<BackupInfo[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const backups = await Promise.all(
+      fileNames.map(async (fileName): Promise<BackupInfo | undefined> => {
+        const parsed = parseBackupFileName(fileName);
+        if (!parsed) return undefined;
+        const stat = await fs.stat(path.join(this.directory, fileName)).catch(() => undefined);
+        return stat ? { ...parsed, sizeBytes: stat.size } : undefined;
+      })
+    );
+    return backups
+      .filter((backup): backup is BackupInfo => Boolean(backup))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async diff(backupId: string): Promise<BackupDiff> {
+    const [{ info, state }, currentAlerts] = await Promise.all([this.read(backupId), this.store.getAlerts()]);
+    return { backup: info, alerts: diffAlerts(state.alerts, currentAlerts) };
+  }
+
+  async restore(request: BackupRestoreRequest): Promise<AlertConfig[]> {
+    const { state } = await this.read(request.backupId);
+    await this.create('beforeRestore');
+
+    const currentAlerts = await this.store.getAlerts();
+    const historyByAlertId: Record<string, AlertSnapshot[]> = {};
+
+    if (!request.alertIds) {
+      // A full restore puts every alert and its history back exactly as backed up.
+      for (const alert of currentAlerts) historyByAlertId[alert.id] = [];
+      for (const alert of state.alerts) historyByAlertId[alert.id] = state.snapshotHistory[alert.id] ?? [];
+      return this.store.importAlerts(state.alerts, historyByAlertId, { replaceAll: true });
+    }
+
+    const selectedIds = new Set(request.alertIds);
+    const restored = state.alerts.filter((alert) => selectedIds.has(alert.id));
+    if (restored.length === 0) throw new Error('None of the selected alerts are in this backup.');
+
+    const currentById = new Map(currentAlerts.map((alert) => [alert.id, alert]));
+    let nextOrder = currentAlerts.length;
+    const restoredAlerts = restored.map((alert) => {
+      historyByAlertId[alert.id] = state.snapshotHistory[alert.id] ?? [];
+      return { ...alert, order: currentById.get(alert.id)?.order ?? nextOrder++ };
+    });
+    return this.store.importAlerts(restoredAlerts, historyByAlertId);
+  }
+
+  private async createScheduled(): Promise<void> {
+    try {
+      if (this.lastFingerprint === undefined) {
+        const [latest] = await this.list();
+        if (latest) this.lastFingerprint = fingerprint((await this.read(latest.id)).state.alerts);
+      }
+
+      const alerts = await this.store.getAlerts();
+      if (alerts.length === 0 && this.lastFingerprint === undefined) return;
+      if (fingerprint(alerts) === this.lastFingerprint) return;
+      await this.create('scheduled');
+    } catch {
+      // A missed scheduled backup is retried on the next interval.
+    }
+  }
+
+  private async read(backupId: string): Promise<{ info: BackupInfo; state: PersistedState }> {
+    const parsed = parseBackupFileName(backupId);
+    if (!parsed || path.basename(backupId) !== backupId) throw new Error('Backup not found.');
+
+    const filePath = path.join(this.directory, backupId);
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf8');
+    } catch {
+      throw new Error('Backup not found.');
+    }
+
+    const { state } = migrateState(JSON.parse(raw));
+    return { info: { ...parsed, sizeBytes: Buffer.byteLength(raw, 'utf8') }, state };
+  }
+
+  private async prune(): Promise<void> {
+    const backups = await this.list();
+    let totalBytes = 0;
+    for (const [index, backup] of backups.entries()) {
+      totalBytes += backup.sizeBytes;
+      // The newest backup is kept even when it alone is over the size cap.
+      if (index === 0 || (index < MAX_BACKUPS && totalBytes <= MAX_BACKUP_TOTAL_BYTES)) continue;
+      await fs.rm(path.join(this.directory, backup.id), { force: true });
+    }
+  }
+}
@@ -1,4 +1,18 @@
-import type { FolderInfo, ListInfo, ScopeTreeTeam, TaskInfo, TeamInfo, TimeEntry } from '../../src/shared/types';
+import { createHash } from 'node:crypto';
+
+import type {
+  FolderInfo,
+  ListInfo,
+  ScopeTreeTeam,
+  SpaceInfo,
+  TaskCustomFieldValue,
+  TaskInfo,
+  TeamInfo,
+  TeamMember,
+  TimeEntry
+} from '../../src/shared/types';
+import type { RateLimiter } from './rateLimiter';
+import { getEndpointTtlMs, normalizeEndpoint, type ResponseCache } from './responseCache';
 
 const DEFAULT_BASE_URL = 'https://api.clickup.com/api/v2';
 const REQUEST_TIMEOUT_MS = 15000;
@@ -44,6 +58,9 @@ const parseOptionalMs = (value: unknown): number | undefined => {
   return undefined;
 };
 
+// ClickUp reports a running timer with a negative duration (minus its start timestamp).
+const isRunningTimer = (raw: Record<string, unknown>): boolean => (parseOptionalMs(raw.duration) ?? 0) < 0;
+
 const extractTaskId = (raw: Record<string, unknown>): string | undefined => {
   if (typeof raw.task_id === 'string') return raw.task_id;
   const task = raw.task;
@@ -53,6 +70,84 @@ const extractTaskId = (raw: Record<string, unknown>): string | undefined => {
   return undefined;
 };
 
+const extractTaskName = (raw: Record<string, unknown>): string | undefined => {
+  const task = raw.task;
+  if (task && typeof task === 'object' && typeof (task as Record<string, unknown>).name === 'string') {
+    return (task as Record<string, string>).name;
+  }
+  return undefined;
+};
+
+const extractUserName = (raw: Record<string, unknown>): string | undefined => {
+  const user = raw.user;
+  if (!user || typeof user !== 'object') return undefined;
+  const record = user as Record<string, unknown>;
+  if (typeof record.username === 'string' && record.username) return record.username;
+  if (typeof record.email === 'string' && record.email) return record.email;
+  return undefined;
+};
+
+// Drop-down values are option indexes and label values are option IDs; both resolve to option names.
+const extractCustomFieldValues = (field: Record<string, unknown>): string[] => {
+  const { value } = field;
+  if (value === undefined || value === null || value === '') return [];
+
+  const typeConfig = field.type_config as { options?: Array<Record<string, unknown>> } | undefined;
+  const options = Array.isArray(typeConfig?.options) ? typeConfig.options : [];
+  const optionName = (match: (option: Record<string, unknown>) => boolean) => {
+    const option = options.find(match);
+    return typeof option?.name === 'string' ? option.name : typeof option?.label === 'string' ? option.label : undefined;
+  };
+
+  if (field.type === 'drop_down') {
+    const name = optionName((option) => option.orderindex === value || option.id === value);
+    return name ? [name] : [];
+  }
+
+  if (field.type === 'labels' && Array.isArray(value)) {
+    return value
+      .map((id) => optionName((option) => option.id === id))
+      .filter((name): name is string => Boolean(name));
+  }
+
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return [String(value)];
+  return [];
+};
+
+const extractCustomFields = (value: unknown): TaskCustomFieldValue[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((field): field is Record<string, unknown> => Boolean(field) && typeof field === 'object')
+    .filter((field) => typeof field.id === 'string' && typeof field.name === 'string')
+    .map((field) => ({ id: field.id as string, name: field.name as string, values: extractCustomFieldValues(field) }))
+    .filter((field) => field.values.length > 0);
+};
+
+const extractTagNames = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+
+  const names = value
+    .map((tag) => {
+      if (typeof tag === 'string') return tag;
+      if (tag && typeof tag === 'object' && typeof (tag as Record<string, unknown>).name === 'string') {
+        return (tag as Record<string, string>).name;
+      }
+      return undefined;
+    })
+    .filter((name): name is string => Boolean(name))
+    .map((name) => name.trim().toLowerCase());
+
+  return [...new Set(names)];
+};
+
+const parseBillable = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
 const getStableFallbackEntryId = (raw: Record<string, unknown>): string => {
   const taskId = extractTaskId(raw) ?? 'no-task';
   const start = parseOptionalMs(raw.start) ?? 0;
@@ -63,27 +158,35 @@ const getStableFallbackEntryId = (raw: Record<string, unknown>): string => {
   return `${taskId}:${userId}:${start}:${end}:${duration}`;
 };
 
-const extractUserIdsFromUserArray = (value: unknown): string[] => {
+const extractMembersFromUserArray = (value: unknown): TeamMember[] => {
   if (!Array.isArray(value)) return [];
 
-  const ids = value
-    .map((entry) => {
+  return value
+    .map((entry): TeamMember | undefined => {
       if (!entry || typeof entry !== 'object') return undefined;
       const record = entry as Record<string, unknown>;
+      const user = record.user && typeof record.user === 'object' ? (record.user as Record<string, unknown>) : record;
 
-      if (record.user && typeof record.user === 'object') {
-        const userId = (record.user as Record<string, unknown>).id;
-        if (typeof userId === 'string' || typeof userId === 'number') return String(userId);
-      }
+      const id = user.id;
+      if (typeof id !== 'string' && typeof id !== 'number') return undefined;
 
-      if (typeof record.id === 'string' || typeof record.id === 'number') return String(record.id);
-      return undefined;
+      return {
+        id: String(id),
+        username: typeof user.username === 'string' && user.username ? user.username : undefined,
+        email: typeof user.email === 'string' && user.email ? user.email : undefined
+      };
     })
-    .filter((id): id is string => Boolean(id));
-
-  return [...new Set(ids)];
+    .filter((member): member is TeamMember => Boolean(member));
 };
 
+const extractTeamMembers = (payload: Record<string, unknown>): TeamMember[] => [
+  ...extractMembersFromUserArray(payload.members),
+  ...extractMembersFromUserArray(payload.guests),
+  ...extractMembersFromUserArray(payload.users),
+  ...extractMembersFromUserArray(payload.member_guests),
+  ...extractMembersFromUserArray(payload.member_invites)
+];
+
 const ASSIGNEE_QUERY_UNASSIGNED = '__UNASSIGNED__';
 const ASSIGNEE_QUERY_NONE = '__NONE__';
 
@@ -97,13 +200,26 @@ const buildAssigneeQueryValues = (assigneeIds?: string[]): string[] => {
   return [...normalized, ASSIGNEE_QUERY_UNASSIGNED, ASSIGNEE_QUERY_NONE];
 };
 
+export interface ClickUpClientOptions {
+  cache?: ResponseCache;
+  rateLimiter?: RateLimiter;
+  baseUrl?: string;
+}
+
 export class ClickUpClient {
   private readonly token: string;
   private readonly baseUrl: string;
+  private readonly cache?: ResponseCache;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly cacheKeyPrefix: string;
 
-  constructor(token: string, baseUrl = process.env.VITE_CLICKUP_API_BASE_URL ?? DEFAULT_BASE_URL) {
+  constructor(token: string, options: ClickUpClientOptions = {}) {
     this.token = token;
-    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.baseUrl = (options.baseUrl ?? process.env.VITE_CLICKUP_API_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.cache = options.cache;
+    this.rateLimiter = options.rateLimiter;
+    // Cache keys are scoped to the token so a replaced token never sees another account's responses.
+    this.cacheKeyPrefix = createHash('sha256').update(token).digest('hex').slice(0, 16);
   }
 
   private async request<T>(
@@ -117,8 +233,17 @@ export class ClickUpClient {
     }
 
     const url = `${this.baseUrl}${path}${params.size ? `?${params.toString()}` : ''}`;
+    const endpoint = normalizeEndpoint(path);
+    const ttlMs = this.cache ? getEndpointTtlMs(endpoint) : 0;
+    const cacheKey = `${this.cacheKeyPrefix}:${url}`;
+
+    if (this.cache && ttlMs > 0) {
+      const cached = await this.cache.get<T>(cacheKey, endpoint);
+      if (cached !== undefined) return cached;
+    }
 
     for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt += 1) {
+      await this.rateLimiter?.acquire();
       const controller = new AbortController();
       const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
@@ -133,11 +258,13 @@ export class ClickUpClient {
         });
 
         clearTimeout(timeout);
+        this.rateLimiter?.updateFromHeaders(response.headers);
 
         const isJson = response.headers.get('content-type')?.includes('application/json');
         const payload = isJson ? await response.json() : null;
 
         if (response.ok) {
+          await this.cache?.set(cacheKey, endpoint, payload, ttlMs);
           return payload as T;
         }
 
@@ -149,7 +276,14 @@ export class ClickUpClient {
           throw new ClickUpApiError('Token is valid but lacks required permissions for this scope.', 403, 'FORBIDDEN');
         }
 
-        if ((response.status === 429 || response.status >= 500) && attempt < MAX_ATTEMPTS) {
+        if (response.status === 429 && attempt < MAX_ATTEMPTS) {
+          // With a shared limiter the next acquire() waits for the window to reset.
+          if (this.rateLimiter) this.rateLimiter.penalize(response.headers);
+          else await sleep(250 * 2 ** (attempt - 1));
+          continue;
+        }
+
+        if (response.status >= 500 && attempt < MAX_ATTEMPTS) {
           await sleep(250 * 2 ** (attempt - 1));
           continue;
         }
@@ -185,21 +319,24 @@ export class ClickUpClient {
     return (payload.teams ?? []).map((team) => ({ id: String(team.id), name: team.name }));
   }
 
-  async getTeamMemberIds(teamId: string): Promise<string[]> {
-    const ids = new Set<string>();
+  async getTeamMembers(teamId: string): Promise<TeamMember[]> {
+    const members = new Map<string, TeamMember>();
+    const addMembers = (items: TeamMember[]) => {
+      for (const item of items) {
+        const existing = members.get(item.id);
+        members.set(item.id, {
+          id: item.id,
+          username: existing?.username ?? item.username,
+          email: existing?.email ?? item.email
+        });
+      }
+    };
 
     try {
       const payload = await this.request<{ teams?: Array<Record<string, unknown>> }>('/team');
       const team = (payload.teams ?? []).find((item) => String(item.id) === String(teamId));
       if (team) {
-        const teamIds = [
-          ...extractUserIdsFromUserArray(team.members),
-          ...extractUserIdsFromUserArray(team.guests),
-          ...extractUserIdsFromUserArray(team.users),
-          ...extractUserIdsFromUserArray(team.member_guests),
-          ...extractUserIdsFromUserArray(team.member_invites)
-        ];
-        for (const id of teamIds) ids.add(id);
+        addMembers(extractTeamMembers(team));
       }
     } catch {
       // Fallback endpoints below.
@@ -207,42 +344,52 @@ export class ClickUpClient {
 
     try {
       const payload = await this.request<Record<string, unknown>>(`/team/${teamId}`);
-      const teamIds = [
-        ...extractUserIdsFromUserArray(payload.members),
-        ...extractUserIdsFromUserArray(payload.guests),
-        ...extractUserIdsFromUserArray(payload.users),
-        ...extractUserIdsFromUserArray(payload.member_guests),
-        ...extractUserIdsFromUserArray(payload.member_invites)
-      ];
-      for (const id of teamIds) ids.add(id);
+      addMembers(extractTeamMembers(payload));
     } catch {
       // Endpoint may not be available for every token type.
     }
 
     try {
       const payload = await this.request<Record<string, unknown>>(`/team/${teamId}/user`);
-      const users = extractUserIdsFromUserArray(payload.users);
-      for (const id of users) ids.add(id);
+      addMembers(extractMembersFromUserArray(payload.users));
     } catch {
       // Endpoint may not be available for every token type.
     }
 
-    return [...ids];
+    return [...members.values()];
+  }
+
+  async getTeamMemberIds(teamId: string): Promise<string[]> {
+    const members = await this.getTeamMembers(teamId);
+    return members.map((member) => member.id);
+  }
+
+  async getSpaces(teamId: string): Promise<SpaceInfo[]> {
+    const payload = await this.request<{ spaces?: Array<{ id: string; name: string }> }>(`/team/${teamId}/space`, {
+      archived: 'false'
+    });
+
+    return (payload.spaces ?? []).map((space) => ({
+      id: String(space.id),
+      name: space.name,
+      teamId
+    }));
   }
 
-  async getFolders(teamId: string): Promise<FolderInfo[]> {
-    const payload = await this.request<{ folders?: Array<{ id: string; name: string }> }>(`/team/${teamId}/folder`, {
+  async getFolders(spaceId: string, teamId: string): Promise<FolderInfo[]> {
+    const payload = await this.request<{ folders?: Array<{ id: string; name: string }> }>(`/space/${spaceId}/folder`, {
       archived: 'false'
     });
 
     return (payload.folders ?? []).map((folder) => ({
       id: String(folder.id),
       name: folder.name,
+      spaceId,
       teamId
     }));
   }
 
-  async getLists(folderId: string, teamId: string): Promise<ListInfo[]> {
+  async getLists(folderId: string, spaceId: string, teamId: string): Promise<ListInfo[]> {
     const payload = await this.request<{ lists?: Array<{ id: string; name: string }> }>(`/folder/${folderId}/list`, {
       archived: 'false'
     });
@@ -251,16 +398,34 @@ export class ClickUpClient {
       id: String(list.id),
       name: list.name,
       folderId,
+      spaceId,
+      teamId
+    }));
+  }
+
+  async getFolderlessLists(spaceId: string, teamId: string): Promise<ListInfo[]> {
+    const payload = await this.request<{ lists?: Array<{ id: string; name: string }> }>(`/space/${spaceId}/list`, {
+      archived: 'false'
+    });
+
+    return (payload.lists ?? []).map((list) => ({
+      id: String(list.id),
+      name: list.name,
+      spaceId,
       teamId
     }));
   }
 
   async getAllListsByTeam(teamId: string): Promise<ListInfo[]> {
-    const folders = await this.getFolders(teamId);
+    const spaces = await this.getSpaces(teamId);
     const nestedLists = await Promise.all(
-      folders.map(async (folder) => {
-        const lists = await this.getLists(folder.id, teamId);
-        return lists;
+      spaces.map(async (space) => {
+        const [folders, folderlessLists] = await Promise.all([
+          this.getFolders(space.id, teamId),
+          this.getFolderlessLists(space.id, teamId)
+        ]);
+        const folderLists = await Promise.all(folders.map((folder) => this.getLists(folder.id, space.id, teamId)));
+        return [...folderlessLists, ...folderLists.flat()];
       })
     );
 
@@ -273,19 +438,37 @@ export class ClickUpClient {
 
     while (page < 200) {
       const payload = await this.request<{
-        tasks?: Array<{ id: string; name: string }>;
+        tasks?: Array<{
+          id: string;
+          name: string;
+          status?: { status?: string };
+          time_estimate?: number | string | null;
+          time_spent?: number | string | null;
+          tags?: unknown;
+          custom_fields?: unknown;
+        }>;
         last_page?: boolean;
       }>(`/list/${listId}/task`, {
         archived: 'false',
         include_closed: 'true',
+        subtasks: 'true',
         page
       });
 
-      const chunk = (payload.tasks ?? []).map((task) => ({
-        id: String(task.id),
-        name: task.name,
-        listId
-      }));
+      const chunk = (payload.tasks ?? []).map((task) => {
+        const estimate = Number(task.time_estimate);
+        const spent = Number(task.time_spent);
+        return {
+          id: String(task.id),
+          name: task.name,
+          listId,
+          status: task.status?.status,
+          timeEstimateMs: Number.isFinite(estimate) && estimate > 0 ? estimate : undefined,
+          timeSpentMs: Number.isFinite(spent) && spent > 0 ? spent : undefined,
+          tags: extractTagNames(task.tags),
+          customFields: extractCustomFields(task.custom_fields)
+        };
+      });
       tasks.push(...chunk);
 
       if (payload.last_page || chunk.length === 0) break;
@@ -300,20 +483,34 @@ export class ClickUpClient {
 
     return Promise.all(
       teams.map(async (team) => {
-        const folders = await this.getFolders(team.id);
-        const foldersWithLists = await Promise.all(
-          folders.map(async (folder) => {
-            const lists = await this.getLists(folder.id, team.id);
+        const spaces = await this.getSpaces(team.id);
+        const spacesWithChildren = await Promise.all(
+          spaces.map(async (space) => {
+            const [folders, folderlessLists] = await Promise.all([
+              this.getFolders(space.id, team.id),
+              this.getFolderlessLists(space.id, team.id)
+            ]);
+            const foldersWithLists = await Promise.all(
+              folders.map(async (folder) => {
+                const lists = await this.getLists(folder.id, space.id, team.id);
+                return {
+                  ...folder,
+                  lists
+                };
+              })
+            );
+
             return {
-              ...folder,
-              lists
+              ...space,
+              folders: foldersWithLists,
+              lists: folderlessLists
             };
           })
         );
 
         return {
           ...team,
-          folders: foldersWithLists
+          spaces: spacesWithChildren
         };
       })
     );
@@ -323,6 +520,7 @@ export class ClickUpClient {
     teamId: string;
     startMs?: number;
     endMs?: number;
+    spaceId?: string;
     folderId?: string;
     listId?: string;
     assigneeIds?: string[];
@@ -350,6 +548,7 @@ export class ClickUpClient {
           const query: Record<string, string | number | boolean | undefined> = {
             start_date: params.startMs,
             end_date: params.endMs,
+            space_id: params.spaceId,
             folder_id: params.folderId,
             list_id: params.listId,
             assignee: assigneeValue,
@@ -384,15 +583,22 @@ export class ClickUpClient {
             entries.push({
               id,
               taskId: extractTaskId(raw),
-              durationMs: parseDurationMs(raw.duration),
+              taskName: extractTaskName(raw),
+              durationMs: isRunningTimer(raw) ? 0 : parseDurationMs(raw.duration),
               startMs: parseOptionalMs(raw.start),
-              endMs: parseOptionalMs(raw.end),
+              endMs: isRunningTimer(raw) ? undefined : parseOptionalMs(raw.end),
+              isRunning: isRunningTimer(raw) || undefined,
               userId:
                 typeof raw.userid === 'string'
                   ? raw.userid
                   : typeof raw.userid === 'number'
                     ? String(raw.userid)
                     : undefined,
+              userName: extractUserName(raw),
+              description: typeof raw.description === 'string' && raw.description ? raw.description : undefined,
+              billable: parseBillable(raw.billable),
+              taskTags: extractTagNames(raw.task_tags),
+              tags: extractTagNames(raw.tags),
               raw
             });
           }
@@ -0,0 +1,158 @@
+import type { Database } from 'better-sqlite3';
+
+import type { PersistedState } from '../../src/shared/types';
+
+export const CURRENT_STATE_VERSION = 3;
+export const CURRENT_DATABASE_VERSION = 2;
+
+// The single token of older versions becomes this connection, and existing alerts are bound to it.
+const LEGACY_CONNECTION_ID = 'default';
+const LEGACY_CONNECTION_NAME = 'ClickUp';
+
+type RawState = Record<string, unknown>;
+
+// Each migration upgrades a state file from version N to N + 1.
+type StateMigration = (state: RawState) => RawState;
+
+const asRecord = (value: unknown): RawState =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as RawState) : {};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const migrations: Record<number, StateMigration> = {
+  // v1 -> v2: fill in fields that older builds left out instead of patching them on every read.
+  1: (state) => ({
+    ...state,
+    alerts: asArray(state.alerts).map((item, index) => {
+      const alert = asRecord(item);
+      return {
+        ...alert,
+        order: typeof alert.order === 'number' ? alert.order : index,
+        excludedTaskIds: asArray(alert.excludedTaskIds),
+        includeOnlyTaskIds: asArray(alert.includeOnlyTaskIds)
+      };
+    }),
+    snapshotHistory: asRecord(state.snapshotHistory),
+    uiPreferences: {
+      workspaceTimeZones: {},
+      ...asRecord(state.uiPreferences)
+    }
+  }),
+  // v2 -> v3: the single encrypted token becomes the first named connection.
+  2: ({ encryptedToken, ...state }) => {
+    if (typeof encryptedToken !== 'string' || !encryptedToken) return { ...state, connections: [] };
+    return {
+      ...state,
+      connections: [
+        {
+          id: LEGACY_CONNECTION_ID,
+          name: LEGACY_CONNECTION_NAME,
+          encryptedToken,
+          teams: [],
+          testStatus: 'untested',
+          createdAt: new Date().toISOString()
+        }
+      ],
+      alerts: asArray(state.alerts).map((item) => ({ connectionId: LEGACY_CONNECTION_ID, ...asRecord(item) }))
+    };
+  }
+};
+
+export class StateVersionError extends Error {
+  version: number;
+
+  constructor(version: number) {
+    super(`State file version ${version} is newer than this app supports (${CURRENT_STATE_VERSION}).`);
+    this.name = 'StateVersionError';
+    this.version = version;
+  }
+}
+
+export class DatabaseVersionError extends Error {
+  version: number;
+
+  constructor(version: number) {
+    super(`Database schema version ${version} is newer than this app supports (${CURRENT_DATABASE_VERSION}).`);
+    this.name = 'DatabaseVersionError';
+    this.version = version;
+  }
+}
+
+export const readStateVersion = (state: unknown): number => {
+  const version = asRecord(state).version;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 1;
+};
+
+export const migrateState = (parsed: unknown): { state: PersistedState; migratedFrom?: number } => {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('State file does not contain an object.');
+  }
+
+  const fromVersion = readStateVersion(parsed);
+  if (fromVersion > CURRENT_STATE_VERSION) throw new StateVersionError(fromVersion);
+
+  let state = parsed as RawState;
+  for (let version = fromVersion; version < CURRENT_STATE_VERSION; version += 1) {
+    const migration = migrations[version];
+    if (!migration) throw new Error(`No migration registered from state version ${version}.`);
+    state = { ...migration(state), version: version + 1 };
+  }
+
+  return {
+    state: state as unknown as PersistedState,
+    migratedFrom: fromVersion < CURRENT_STATE_VERSION ? fromVersion : undefined
+  };
+};
+
+// Each entry upgrades the SQLite schema from `PRAGMA user_version` N to N + 1.
+const databaseMigrations: Record<number, string> = {
+  0: `
+    CREATE TABLE alerts (
+      id TEXT PRIMARY KEY,
+      sort_order INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE TABLE snapshot_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      alert_id TEXT NOT NULL,
+      recorded_at INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX snapshot_history_alert_time ON snapshot_history (alert_id, recorded_at);
+    CREATE TABLE settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `,
+  1: `
+    INSERT INTO settings (key, value)
+    SELECT 'connections', json_array(json_object(
+      'id', '${LEGACY_CONNECTION_ID}',
+      'name', '${LEGACY_CONNECTION_NAME}',
+      'encryptedToken', json_extract(value, '$'),
+      'teams', json_array(),
+      'testStatus', 'untested',
+      'createdAt', strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+    ))
+    FROM settings WHERE key = 'encryptedToken';
+    UPDATE alerts SET data = json_set(data, '$.connectionId', '${LEGACY_CONNECTION_ID}')
+    WHERE EXISTS (SELECT 1 FROM settings WHERE key = 'connections')
+      AND json_extract(data, '$.connectionId') IS NULL;
+    DELETE FROM settings WHERE key = 'encryptedToken';
+  `
+};
+
+export const migrateDatabase = (db: Database): void => {
+  const fromVersion = db.pragma('user_version', { simple: true }) as number;
+  if (fromVersion > CURRENT_DATABASE_VERSION) throw new DatabaseVersionError(fromVersion);
+
+  for (let version = fromVersion; version < CURRENT_DATABASE_VERSION; version += 1) {
+    const migration = databaseMigrations[version];
+    if (!migration) throw new Error(`No migration registered from database version ${version}.`);
+    db.transaction(() => {
+      db.exec(migration);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+};
@@ -0,0 +1,73 @@
+import { Notification } from 'electron';
+
+import { DEFAULT_NOTIFY_ON } from '../../src/shared/notifications';
+import { statusSeverity } from '../../src/shared/status';
+import type { AlertConfig, AlertStatus, NotificationTrigger, RefreshAlertResult } from '../../src/shared/types';
+
+// Electron drops click handlers once a Notification is garbage collected, so shown ones are held until dismissed.
+const activeNotifications = new Set<Notification>();
+
+export const detectStatusTrigger = (
+  previous: AlertStatus | undefined,
+  next: AlertStatus
+): NotificationTrigger | undefined => {
+  // No notification for the first refresh or when an alert is (re)activated.
+  if (!previous || previous === 'inactive' || previous === next) return undefined;
+
+  if (next === 'error') return 'error';
+  if (next === 'red') return 'critical';
+  if (next === 'yellow' && statusSeverity[previous] < statusSeverity.yellow) return 'warning';
+  if (next === 'projected' && previous === 'green') return 'projected';
+  if (next === 'green') return 'recovered';
+  return undefined;
+};
+
+const describeTrigger = (trigger: NotificationTrigger): string => {
+  if (trigger === 'warning') return 'Warning threshold reached';
+  if (trigger === 'critical') return 'Critical threshold reached';
+  if (trigger === 'projected') return 'Projected to go over budget';
+  if (trigger === 'error') return 'Refresh failed';
+  return 'Back to safe';
+};
+
+const describeAlert = (alert: AlertConfig): string => {
+  const snapshot = alert.lastSnapshot;
+  if (!snapshot) return '';
+  if (snapshot.status === 'error') return snapshot.errorMessage ?? 'Unable to refresh this alert.';
+
+  const usage = `${snapshot.hoursUsed.toFixed(2)} h of ${snapshot.budgetHours.toFixed(2)} h used (${snapshot.percentUsed.toFixed(2)}%)`;
+  if (snapshot.status === 'projected' && snapshot.forecast) {
+    return `${usage}. Projected ${snapshot.forecast.projectedHours.toFixed(2)} h by period end.`;
+  }
+  return usage;
+};
+
+export const notifyStatusChanges = (
+  previousAlerts: AlertConfig[],
+  results: RefreshAlertResult[],
+  onClick: (alertId: string) => void
+): void => {
+  if (!Notification.isSupported()) return;
+
+  const previousById = new Map(previousAlerts.map((alert) => [alert.id, alert]));
+
+  for (const { alert } of results) {
+    const nextStatus = alert.lastSnapshot?.status;
+    if (!nextStatus) continue;
+
+    const trigger = detectStatusTrigger(previousById.get(alert.id)?.lastSnapshot?.status, nextStatus);
+    if (!trigger || !(alert.notifyOn ?? DEFAULT_NOTIFY_ON).includes(trigger)) continue;
+
+    const notification = new Notification({
+      title: `${alert.name}: ${describeTrigger(trigger)}`,
+      body: describeAlert(alert)
+    });
+    activeNotifications.add(notification);
+    notification.on('click', () => {
+      activeNotifications.delete(notification);
+      onClick(alert.id);
+    });
+    notification.on('close', () => activeNotifications.delete(notification));
+    notification.show();
+  }
+};
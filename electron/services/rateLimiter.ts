@@ -0,0 +1,106 @@
+import type { RateLimitStatus } from '../../src/shared/types';
+
+// ClickUp allows 100 requests per minute per token on the base plans; headers raise it when the plan allows more.
+const DEFAULT_LIMIT = 100;
+const WINDOW_MS = 60_000;
+const MIN_WAIT_MS = 10;
+
+const parseHeaderNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// X-RateLimit-Reset is documented in seconds; accept milliseconds as well.
+const parseResetMs = (value: string | null): number | undefined => {
+  const parsed = parseHeaderNumber(value);
+  if (parsed === undefined) return undefined;
+  return parsed < 1e12 ? parsed * 1000 : parsed;
+};
+
+export class RateLimiter {
+  private limit = DEFAULT_LIMIT;
+  private tokens = DEFAULT_LIMIT;
+  private lastRefillAt = Date.now();
+  private blockedUntil = 0;
+  private resetAt?: number;
+  private readonly waiting: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+
+  acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.waiting.push(resolve);
+      this.drain();
+    });
+  }
+
+  updateFromHeaders(headers: Headers): void {
+    const limit = parseHeaderNumber(headers.get('x-ratelimit-limit'));
+    const remaining = parseHeaderNumber(headers.get('x-ratelimit-remaining'));
+    const resetAt = parseResetMs(headers.get('x-ratelimit-reset'));
+
+    this.refill();
+    if (limit !== undefined && limit > 0) this.limit = limit;
+    if (resetAt !== undefined) this.resetAt = resetAt;
+    // Requests already granted locally are not reflected in the header yet, so only ever lower the budget.
+    if (remaining !== undefined) this.tokens = Math.min(this.tokens, Math.max(0, remaining));
+    if (remaining === 0 && this.resetAt) this.blockedUntil = Math.max(this.blockedUntil, this.resetAt);
+  }
+
+  penalize(headers: Headers): void {
+    this.updateFromHeaders(headers);
+    const retryAfterSeconds = parseHeaderNumber(headers.get('retry-after'));
+    const now = Date.now();
+    const until =
+      this.resetAt && this.resetAt > now
+        ? this.resetAt
+        : now + (retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : WINDOW_MS);
+
+    this.tokens = 0;
+    this.blockedUntil = Math.max(this.blockedUntil, until);
+  }
+
+  getStatus(): RateLimitStatus {
+    this.refill();
+    const now = Date.now();
+    return {
+      limit: this.limit,
+      remaining: Math.floor(this.tokens),
+      queuedRequests: this.waiting.length,
+      resetAt: this.resetAt && this.resetAt > now ? new Date(this.resetAt).toISOString() : undefined,
+      blockedUntil: this.blockedUntil > now ? new Date(this.blockedUntil).toISOString() : undefined
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.blockedUntil && now >= this.blockedUntil) {
+      // The server window has reset.
+      this.blockedUntil = 0;
+      this.tokens = this.limit;
+    } else if (!this.blockedUntil) {
+      this.tokens = Math.min(this.limit, this.tokens + ((now - this.lastRefillAt) * this.limit) / WINDOW_MS);
+    }
+    this.lastRefillAt = now;
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+    this.refill();
+
+    while (this.waiting.length > 0 && !this.blockedUntil && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.waiting.shift()?.();
+    }
+
+    if (this.waiting.length === 0) return;
+
+    const waitMs = this.blockedUntil
+      ? this.blockedUntil - Date.now()
+      : Math.ceil(((1 - this.tokens) * WINDOW_MS) / this.limit);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.max(MIN_WAIT_MS, waitMs));
+  }
+}
@@ -1,24 +1,191 @@
-import type { AlertConfig, RefreshAlertResult, ScopeTreeTeam } from '../../src/shared/types';
-import { buildErrorSnapshot, buildSnapshot, computeTimeRange, applyEntryFilters } from './alertEngine';
+import { getTeamFolders, getTeamLists, resolveAlertScopeType, resolveScopeListIds } from '../../src/shared/scopeTree';
+import { isRecurringTimeRange } from '../../src/shared/timeRange';
+import type {
+  AlertConfig,
+  BudgetPeriodRecord,
+  RefreshAlertResult,
+  ScopeTreeTeam,
+  TaskInfo,
+  TimeEntry
+} from '../../src/shared/types';
+import {
+  buildErrorSnapshot,
+  buildSnapshot,
+  closeBudgetPeriod,
+  computeTimeRange,
+  applyEntryFilters,
+  applyTaskFilters,
+  buildTaskRuleWarning,
+  type TaskLookup
+} from './alertEngine';
 import { ClickUpApiError, ClickUpClient } from './clickupClient';
 
+const MAX_PERIODS_CLOSED_PER_REFRESH = 24;
+const MAX_LEDGER_PERIODS = 60;
+
 const getScopeWarning = (alert: AlertConfig, tree: ScopeTreeTeam[]): string | undefined => {
   const team = tree.find((item) => item.id === alert.teamId);
   if (!team) return 'Selected workspace is no longer accessible.';
 
-  if (alert.type === 'folder' || (alert.type === 'custom' && alert.customScopeType === 'folder')) {
-    const folderExists = team.folders.some((folder) => folder.id === alert.folderId);
+  if (alert.type === 'multi') {
+    const folderIds = new Set(getTeamFolders(team).map((folder) => folder.id));
+    const listIds = new Set(getTeamLists(team).map((list) => list.id));
+    const missing = (alert.scopes ?? []).filter((scope) =>
+      scope.type === 'folder' ? !folderIds.has(scope.id) : !listIds.has(scope.id)
+    );
+    if (missing.length > 0) {
+      return `Missing or inaccessible: ${missing.map((scope) => `${scope.type} ${scope.name ?? scope.id}`).join(', ')}.`;
+    }
+    return undefined;
+  }
+
+  const scopeType = resolveAlertScopeType(alert);
+
+  if (scopeType === 'space') {
+    const spaceExists = team.spaces.some((space) => space.id === alert.spaceId);
+    if (!spaceExists) return 'Selected space is missing or inaccessible.';
+  }
+
+  if (scopeType === 'folder') {
+    const folderExists = getTeamFolders(team).some((folder) => folder.id === alert.folderId);
     if (!folderExists) return 'Selected folder is missing or inaccessible.';
   }
 
-  if (alert.type === 'list' || (alert.type === 'custom' && alert.customScopeType === 'list')) {
-    const listExists = team.folders.some((folder) => folder.lists.some((list) => list.id === alert.listId));
+  if (scopeType === 'list') {
+    const listExists = getTeamLists(team).some((list) => list.id === alert.listId);
     if (!listExists) return 'Selected list is missing or inaccessible.';
   }
 
   return undefined;
 };
 
+export const fetchAlertEntries = async (
+  client: ClickUpClient,
+  alert: AlertConfig,
+  teamMemberIdsOverride?: string[],
+  taskLookup?: TaskLookup,
+  now = new Date()
+): Promise<TimeEntry[]> => {
+  const timeRange = computeTimeRange(alert, now);
+  // Running timers count up to `now`, but never past the end of the period being measured.
+  const runningUntil = new Date(Math.min(now.getTime(), timeRange.endMs ?? now.getTime()));
+  const scopeType = resolveAlertScopeType(alert);
+  const assigneeIds = teamMemberIdsOverride ?? (await client.getTeamMemberIds(alert.teamId));
+
+  if (alert.type === 'multi') {
+    // A list inside a selected folder returns the same entries twice; the first scope keeps them.
+    const entriesById = new Map<string, TimeEntry>();
+    for (const scope of alert.scopes ?? []) {
+      const scopeEntries = await client.getTimeEntries({
+        teamId: alert.teamId,
+        startMs: timeRange.startMs,
+        endMs: timeRange.endMs,
+        folderId: scope.type === 'folder' ? scope.id : undefined,
+        listId: scope.type === 'list' ? scope.id : undefined,
+        assigneeIds
+      });
+      for (const entry of scopeEntries) {
+        if (!entriesById.has(entry.id)) entriesById.set(entry.id, { ...entry, scopeId: scope.id });
+      }
+    }
+    return applyEntryFilters(alert, [...entriesById.values()], taskLookup, runningUntil, timeRange.startMs);
+  }
+
+  const entries = await client.getTimeEntries({
+    teamId: alert.teamId,
+    startMs: timeRange.startMs,
+    endMs: timeRange.endMs,
+    spaceId: scopeType === 'space' ? alert.spaceId : undefined,
+    folderId: scopeType === 'folder' ? alert.folderId : undefined,
+    listId: scopeType === 'list' ? alert.listId : undefined,
+    assigneeIds
+  });
+
+  return applyEntryFilters(alert, entries, taskLookup, runningUntil, timeRange.startMs);
+};
+
+const loadScopeTasks = async (
+  client: ClickUpClient,
+  alert: AlertConfig,
+  scopeTree: ScopeTreeTeam[]
+): Promise<TaskInfo[]> => {
+  const team = scopeTree.find((item) => item.id === alert.teamId);
+  if (!team) return [];
+
+  // Tasks can live in several lists; keep the first copy.
+  const tasksById = new Map<string, TaskInfo>();
+  for (const listId of resolveScopeListIds(alert, team)) {
+    for (const task of await client.getTasks(listId)) {
+      if (!tasksById.has(task.id)) tasksById.set(task.id, task);
+    }
+  }
+
+  return [...tasksById.values()];
+};
+
+export const loadTaskLookup = async (
+  client: ClickUpClient,
+  alert: AlertConfig,
+  scopeTree: ScopeTreeTeam[]
+): Promise<TaskLookup | undefined> => {
+  if (!alert.taskRules?.length) return undefined;
+  const tasks = await loadScopeTasks(client, alert, scopeTree);
+  return new Map(tasks.map((task) => [task.id, task]));
+};
+
+const closeElapsedPeriods = async (
+  client: ClickUpClient,
+  alert: AlertConfig,
+  currentPeriodStartMs: number,
+  teamMemberIdsOverride?: string[],
+  taskLookup?: TaskLookup,
+  tasks?: TaskInfo[]
+): Promise<BudgetPeriodRecord[]> => {
+  const ledger = [...(alert.periodLedger ?? [])];
+  const lastClosed = ledger[ledger.length - 1];
+  // Tracking starts with the period of the first refresh after the alert became recurring.
+  let cursorMs = lastClosed
+    ? new Date(lastClosed.periodEnd).getTime() + 1
+    : alert.currentPeriodStart
+      ? new Date(alert.currentPeriodStart).getTime()
+      : currentPeriodStartMs;
+  let closed = 0;
+
+  while (cursorMs < currentPeriodStartMs && closed < MAX_PERIODS_CLOSED_PER_REFRESH) {
+    const { startMs, endMs } = computeTimeRange(alert, new Date(cursorMs));
+    if (startMs === undefined || endMs === undefined) break;
+
+    // Measured as of the period end, so timers still running now only count the time inside it.
+    const entries = await fetchAlertEntries(client, alert, teamMemberIdsOverride, taskLookup, new Date(endMs));
+    const carriedInHours = ledger[ledger.length - 1]?.carriedOutHours ?? 0;
+    ledger.push(closeBudgetPeriod(alert, { startMs, endMs }, entries, carriedInHours, tasks));
+
+    cursorMs = endMs + 1;
+    closed += 1;
+  }
+
+  return ledger.slice(-MAX_LEDGER_PERIODS);
+};
+
+const trackRecurringPeriod = async (
+  client: ClickUpClient,
+  alert: AlertConfig,
+  teamMemberIdsOverride?: string[],
+  taskLookup?: TaskLookup,
+  tasks?: TaskInfo[]
+): Promise<AlertConfig> => {
+  if (!alert.recurringPeriod || !isRecurringTimeRange(alert.timeRangeMode)) return alert;
+
+  const { startMs } = computeTimeRange(alert);
+  if (startMs === undefined) return alert;
+
+  return {
+    ...alert,
+    periodLedger: await closeElapsedPeriods(client, alert, startMs, teamMemberIdsOverride, taskLookup, tasks),
+    currentPeriodStart: new Date(startMs).toISOString()
+  };
+};
+
 export const refreshSingleAlert = async (
   client: ClickUpClient,
   alert: AlertConfig,
@@ -57,30 +224,22 @@ export const refreshSingleAlert = async (
       };
     }
 
-    const timeRange = computeTimeRange(alert);
-    const assigneeIds = teamMemberIdsOverride ?? (await client.getTeamMemberIds(alert.teamId));
-    const entries = await client.getTimeEntries({
-      teamId: alert.teamId,
-      startMs: timeRange.startMs,
-      endMs: timeRange.endMs,
-      folderId:
-        alert.type === 'folder' || (alert.type === 'custom' && alert.customScopeType === 'folder')
-          ? alert.folderId
-          : undefined,
-      listId:
-        alert.type === 'list' || (alert.type === 'custom' && alert.customScopeType === 'list')
-          ? alert.listId
-          : undefined,
-      assigneeIds
-    });
-
-    const filteredEntries = applyEntryFilters(alert, entries);
-    const snapshot = buildSnapshot(alert, filteredEntries);
+    const taskLookup = await loadTaskLookup(client, alert, scopeTree);
+    const tasks =
+      alert.budgetSource === 'estimates'
+        ? applyTaskFilters(alert, await loadScopeTasks(client, alert, scopeTree))
+        : undefined;
+    const trackedAlert = await trackRecurringPeriod(client, alert, teamMemberIdsOverride, taskLookup, tasks);
+    const filteredEntries = await fetchAlertEntries(client, trackedAlert, teamMemberIdsOverride, taskLookup);
+    const estimateWarning =
+      tasks && !tasks.some((task) => task.timeEstimateMs) ? 'No task time estimates found in this scope.' : undefined;
+    const warnings = [estimateWarning, buildTaskRuleWarning(alert, filteredEntries, taskLookup)].filter(Boolean);
+    const snapshot = buildSnapshot(trackedAlert, filteredEntries, tasks, warnings.join(' ') || undefined);
 
     return {
       success: true,
       alert: {
-        ...alert,
+        ...trackedAlert,
         excludedTaskIds: [...new Set(alert.excludedTaskIds)],
         includeOnlyTaskIds: alert.includeOnlyTaskIds ? [...new Set(alert.includeOnlyTaskIds)] : [],
         lastRefreshedAt: snapshot.lastRefreshedAt,
@@ -96,6 +255,7 @@ export const refreshSingleAlert = async (
     return {
       success: false,
       errorMessage: message,
+      errorStatus: error instanceof ClickUpApiError ? error.status : undefined,
       alert: {
         ...alert,
         lastRefreshedAt: snapshot.lastRefreshedAt,
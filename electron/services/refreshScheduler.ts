@@ -0,0 +1,173 @@
+import type { AlertConfig, RefreshAlertResult, SchedulerProgressEvent, SchedulerStatus } from '../../src/shared/types';
+
+const TICK_INTERVAL_MS = 30_000;
+const DEFAULT_REFRESH_MINUTES = 60;
+const RATE_LIMIT_BACKOFF_MS = 60_000;
+const MAX_RATE_LIMIT_BACKOFF_MS = 15 * 60_000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// Resolves early when the run is aborted so quitting never waits out a rate-limit backoff.
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+export interface RefreshSchedulerDeps {
+  hasConnections: () => Promise<boolean>;
+  getAlerts: () => Promise<AlertConfig[]>;
+  refreshAlert: (id: string) => Promise<RefreshAlertResult>;
+  onProgress: (event: SchedulerProgressEvent) => void;
+}
+
+export const getRefreshIntervalMs = (alert: AlertConfig): number =>
+  (alert.refreshFrequencyMinutes > 0 ? alert.refreshFrequencyMinutes : DEFAULT_REFRESH_MINUTES) * 60_000;
+
+export const isAlertDue = (alert: AlertConfig, now = Date.now()): boolean => {
+  if (!alert.active) return false;
+  const last = alert.lastRefreshedAt ? new Date(alert.lastRefreshedAt).getTime() : 0;
+  return Number.isNaN(last) || now - last >= getRefreshIntervalMs(alert);
+};
+
+const isRateLimited = (result: RefreshAlertResult): boolean => !result.success && result.errorStatus === 429;
+
+export class RefreshScheduler {
+  private readonly deps: RefreshSchedulerDeps;
+  private timer?: NodeJS.Timeout;
+  private activeRun?: Promise<unknown>;
+  private abortController?: AbortController;
+  private status: SchedulerStatus = { running: false, total: 0, completed: 0 };
+
+  constructor(deps: RefreshSchedulerDeps) {
+    this.deps = deps;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+    void this.tick();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    this.abortController?.abort();
+    await this.activeRun?.catch(() => undefined);
+  }
+
+  getStatus(): SchedulerStatus {
+    return { ...this.status };
+  }
+
+  // Manual refreshes share the scheduler's guard so the two never hit the API side by side.
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    if (this.activeRun) throw new Error('A refresh is already running. Try again when it finishes.');
+
+    const run = task();
+    this.activeRun = run;
+    try {
+      return await run;
+    } finally {
+      this.activeRun = undefined;
+    }
+  }
+
+  async runNow(): Promise<void> {
+    const alerts = await this.deps.getAlerts();
+    await this.run(alerts.filter((alert) => alert.active).map((alert) => alert.id));
+  }
+
+  private async tick(): Promise<void> {
+    this.setStatus({ nextCheckAt: new Date(Date.now() + TICK_INTERVAL_MS).toISOString() });
+    if (this.activeRun) return;
+
+    const backoffUntil = this.status.backoffUntil ? new Date(this.status.backoffUntil).getTime() : 0;
+    if (backoffUntil > Date.now()) return;
+
+    if (!(await this.deps.hasConnections())) return;
+
+    const alerts = await this.deps.getAlerts();
+    const dueIds = alerts.filter((alert) => isAlertDue(alert)).map((alert) => alert.id);
+    // stop() may have been called while the alerts were loading.
+    if (dueIds.length > 0 && this.timer) {
+      await this.run(dueIds);
+    }
+  }
+
+  private async run(alertIds: string[]): Promise<void> {
+    if (this.activeRun || alertIds.length === 0) return;
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const run = this.processQueue(alertIds, abortController.signal);
+    this.activeRun = run;
+    try {
+      await run;
+    } finally {
+      this.activeRun = undefined;
+      this.abortController = undefined;
+    }
+  }
+
+  private async processQueue(alertIds: string[], signal: AbortSignal): Promise<void> {
+    const queue = [...alertIds];
+    const retries = new Map<string, number>();
+    let consecutiveRateLimits = 0;
+
+    this.setStatus({ running: true, total: queue.length, completed: 0, currentAlertId: undefined });
+
+    try {
+      while (queue.length > 0 && !signal.aborted) {
+        const alertId = queue.shift();
+        if (!alertId) break;
+
+        this.setStatus({ currentAlertId: alertId });
+
+        let result: RefreshAlertResult | undefined;
+        try {
+          result = await this.deps.refreshAlert(alertId);
+        } catch {
+          // The alert may have been deleted mid-run or the token removed; move on.
+        }
+        if (signal.aborted) break;
+
+        if (result && isRateLimited(result)) {
+          const attempt = retries.get(alertId) ?? 0;
+          consecutiveRateLimits += 1;
+          const backoffMs = Math.min(MAX_RATE_LIMIT_BACKOFF_MS, RATE_LIMIT_BACKOFF_MS * 2 ** (consecutiveRateLimits - 1));
+          this.setStatus({ backoffUntil: new Date(Date.now() + backoffMs).toISOString() });
+
+          if (attempt < MAX_RATE_LIMIT_RETRIES) {
+            retries.set(alertId, attempt + 1);
+            queue.push(alertId);
+            await sleep(backoffMs, signal);
+            continue;
+          }
+        } else {
+          consecutiveRateLimits = 0;
+        }
+
+        // Requests are paced by the client's shared rate limiter, so alerts run back to back.
+        this.setStatus({ completed: this.status.completed + 1 }, result);
+      }
+    } finally {
+      this.setStatus({
+        running: false,
+        currentAlertId: undefined,
+        lastRunAt: new Date().toISOString()
+      });
+    }
+  }
+
+  private setStatus(partial: Partial<SchedulerStatus>, result?: RefreshAlertResult): void {
+    this.status = { ...this.status, ...partial };
+    this.deps.onProgress({ status: this.getStatus(), result });
+  }
+}
@@ -0,0 +1,151 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { safeStorage } from 'electron';
+
+import type { ResponseCacheEndpointStats, ResponseCacheStats } from '../../src/shared/types';
+
+const CACHE_FILE_NAME = 'clickup-response-cache.bin';
+// Earlier versions wrote the cache as plain JSON; it is removed on first load.
+const LEGACY_CACHE_FILE_NAME = 'clickup-response-cache.json';
+const CACHE_VERSION = 1;
+const FLUSH_DELAY_MS = 2_000;
+const MINUTE_MS = 60_000;
+
+interface CachedResponse {
+  endpoint: string;
+  expiresAt: number;
+  payload: unknown;
+}
+
+interface PersistedCache {
+  version: number;
+  entries: Record<string, CachedResponse>;
+}
+
+// Time entries are never cached: hours used must reflect the latest tracked time.
+const endpointTtls: Array<{ pattern: RegExp; ttlMs: number }> = [
+  { pattern: /^\/team\/:id\/time_entries$/, ttlMs: 0 },
+  { pattern: /^\/team$/, ttlMs: 30 * MINUTE_MS },
+  { pattern: /^\/team\/:id(\/user)?$/, ttlMs: 30 * MINUTE_MS },
+  { pattern: /^\/team\/:id\/space$/, ttlMs: 15 * MINUTE_MS },
+  { pattern: /^\/space\/:id\/(folder|list)$/, ttlMs: 15 * MINUTE_MS },
+  { pattern: /^\/folder\/:id\/list$/, ttlMs: 15 * MINUTE_MS },
+  { pattern: /^\/list\/:id\/task$/, ttlMs: 5 * MINUTE_MS }
+];
+
+export const normalizeEndpoint = (requestPath: string): string =>
+  requestPath
+    .split('/')
+    .map((segment, index, segments) => (index > 0 && index % 2 === 0 && segments[index - 1] ? ':id' : segment))
+    .join('/');
+
+export const getEndpointTtlMs = (endpoint: string): number =>
+  endpointTtls.find((item) => item.pattern.test(endpoint))?.ttlMs ?? 0;
+
+export class ResponseCache {
+  private readonly filePath: string;
+  private readonly legacyFilePath: string;
+  private entries = new Map<string, CachedResponse>();
+  private readonly endpointStats = new Map<string, ResponseCacheEndpointStats>();
+  private loaded?: Promise<void>;
+  private flushTimer?: NodeJS.Timeout;
+  private lastClearedAt?: string;
+
+  constructor(userDataPath: string) {
+    this.filePath = path.join(userDataPath, CACHE_FILE_NAME);
+    this.legacyFilePath = path.join(userDataPath, LEGACY_CACHE_FILE_NAME);
+  }
+
+  async get<T>(key: string, endpoint: string): Promise<T | undefined> {
+    await this.load();
+    const cached = this.entries.get(key);
+    const hit = Boolean(cached && cached.expiresAt > Date.now());
+    this.record(endpoint, hit);
+
+    if (!hit) {
+      if (cached) this.entries.delete(key);
+      return undefined;
+    }
+    return cached?.payload as T;
+  }
+
+  async set(key: string, endpoint: string, payload: unknown, ttlMs: number): Promise<void> {
+    if (ttlMs <= 0) return;
+    await this.load();
+    this.entries.set(key, { endpoint, expiresAt: Date.now() + ttlMs, payload });
+    this.scheduleFlush();
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries.clear();
+    this.endpointStats.clear();
+    this.lastClearedAt = new Date().toISOString();
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    await Promise.all([fs.rm(this.filePath, { force: true }), fs.rm(this.legacyFilePath, { force: true })]);
+  }
+
+  async getStats(): Promise<ResponseCacheStats> {
+    await this.load();
+    const endpoints = [...this.endpointStats.values()].sort((a, b) => b.hits + b.misses - (a.hits + a.misses));
+    const hits = endpoints.reduce((sum, item) => sum + item.hits, 0);
+    const misses = endpoints.reduce((sum, item) => sum + item.misses, 0);
+    const now = Date.now();
+
+    return {
+      entryCount: [...this.entries.values()].filter((entry) => entry.expiresAt > now).length,
+      hits,
+      misses,
+      hitRatePct: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 10 : 0,
+      endpoints: endpoints.map((item) => ({ ...item })),
+      lastClearedAt: this.lastClearedAt
+    };
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    // Responses include task names and member emails, so without OS encryption the cache stays in memory.
+    if (!safeStorage.isEncryptionAvailable()) return;
+
+    const now = Date.now();
+    const entries = Object.fromEntries([...this.entries].filter(([, entry]) => entry.expiresAt > now));
+    const persisted: PersistedCache = { version: CACHE_VERSION, entries };
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, safeStorage.encryptString(JSON.stringify(persisted)));
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.readFromDisk();
+    return this.loaded;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    await fs.rm(this.legacyFilePath, { force: true }).catch(() => undefined);
+    if (!safeStorage.isEncryptionAvailable()) return;
+
+    try {
+      const parsed = JSON.parse(safeStorage.decryptString(await fs.readFile(this.filePath))) as PersistedCache;
+      if (parsed.version !== CACHE_VERSION) return;
+      const now = Date.now();
+      this.entries = new Map(Object.entries(parsed.entries ?? {}).filter(([, entry]) => entry.expiresAt > now));
+    } catch {
+      // A missing or unreadable cache file just means a cold cache.
+      this.entries = new Map();
+    }
+  }
+
+  private record(endpoint: string, hit: boolean): void {
+    const stats = this.endpointStats.get(endpoint) ?? { endpoint, hits: 0, misses: 0 };
+    if (hit) stats.hits += 1;
+    else stats.misses += 1;
+    this.endpointStats.set(endpoint, stats);
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => void this.flush().catch(() => undefined), FLUSH_DELAY_MS);
+  }
+}
@@ -1,27 +1,71 @@
-import { promises as fs } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import { existsSync, readFileSync, renameSync } from 'node:fs';
 import path from 'node:path';
+import Database from 'better-sqlite3';
+import { endOfDay, startOfDay } from 'date-fns';
 import { safeStorage } from 'electron';
 
-import type { AlertConfig, PersistedState, UiPreferences } from '../../src/shared/types';
+import { parseDateInput } from '../../src/shared/timeRange';
+import type {
+  AlertConfig,
+  AlertSnapshot,
+  ClickUpConnection,
+  ConnectionInput,
+  PersistedState,
+  SnapshotHistoryQuery,
+  StateRecoveryNotice,
+  StateRecoveryReason,
+  StoredConnection,
+  UiPreferences
+} from '../../src/shared/types';
+import {
+  CURRENT_STATE_VERSION,
+  DatabaseVersionError,
+  StateVersionError,
+  migrateDatabase,
+  migrateState
+} from './migrations';
 
-const STATE_FILE_NAME = 'clickup-budget-monitor.json';
-const STATE_VERSION = 1;
+const DATABASE_FILE_NAME = 'clickup-budget-monitor.db';
+const LEGACY_STATE_FILE_NAME = 'clickup-budget-monitor.json';
+const HISTORY_MAX_ENTRIES_PER_ALERT = 2000;
+const HISTORY_MAX_AGE_MS = 400 * 24 * 60 * 60 * 1000;
+
+// SQLite keeps uncommitted WAL pages beside the database, so they move together.
+const DATABASE_FILE_SUFFIXES = ['', '-wal', '-shm'];
+
+const SETTING_CONNECTIONS = 'connections';
+const SETTING_UI_PREFERENCES = 'uiPreferences';
+const SETTING_RECOVERY = 'recovery';
+const SETTING_JSON_IMPORTED_AT = 'jsonImportedAt';
 
 const defaultUiPreferences = (): UiPreferences => ({
   search: '',
   statusFilter: 'all',
-  sortBy: 'percentUsed'
-});
-
-const defaultState = (): PersistedState => ({
-  version: STATE_VERSION,
-  alerts: [],
-  uiPreferences: defaultUiPreferences()
+  sortBy: 'percentUsed',
+  workspaceTimeZones: {}
 });
 
 const sortByOrder = (alerts: AlertConfig[]): AlertConfig[] =>
   [...alerts].sort((a, b) => a.order - b.order || a.createdAt.localeCompare(b.createdAt));
 
+const snapshotTime = (snapshot: AlertSnapshot): number => new Date(snapshot.lastRefreshedAt).getTime();
+
+const withoutToken = ({ encryptedToken, ...connection }: StoredConnection): ClickUpConnection => connection;
+
+const backupTimestamp = (): string => new Date().toISOString().replace(/[:.]/g, '-');
+
+const recoveryMessages: Record<StateRecoveryReason, string> = {
+  corrupt: 'The saved alerts file could not be read, so the app started with empty data.',
+  newerVersion: 'The saved alerts file was written by a newer version of this app, so the app started with empty data.',
+  migrationFailed: 'The saved alerts file could not be upgraded to the current format, so the app started with empty data.'
+};
+
+const databaseRecoveryMessages: Record<'corrupt' | 'newerVersion', string> = {
+  corrupt: 'The local database is damaged or is not a database file, so the app started with empty data.',
+  newerVersion: 'The local database was created by a newer version of this app, so the app started with empty data.'
+};
+
 const encryptToken = (token: string): string => {
   if (safeStorage.isEncryptionAvailable()) {
     const encrypted = safeStorage.encryptString(token);
@@ -42,106 +86,459 @@ const decryptToken = (encoded: string): string => {
   return '';
 };
 
+const backupPath = (filePath: string, label: string): string => {
+  const { dir, name, ext } = path.parse(filePath);
+  return path.join(dir, `${name}.${label}-${backupTimestamp()}${ext}`);
+};
+
+const buildRecoveryNotice = (reason: StateRecoveryReason, backupFile: string, detail?: string): StateRecoveryNotice => ({
+  reason,
+  message: detail ? `${recoveryMessages[reason]} ${detail}` : recoveryMessages[reason],
+  backupPath: backupFile,
+  detectedAt: new Date().toISOString()
+});
+
+const isUnreadableDatabaseError = (error: unknown): boolean =>
+  error instanceof DatabaseVersionError ||
+  (error instanceof Database.SqliteError && /^SQLITE_(CORRUPT|NOTADB)/.test(error.code));
+
+const recoveryReasonFor = (error: unknown): StateRecoveryReason =>
+  error instanceof StateVersionError ? 'newerVersion' : 'migrationFailed';
+
 export class LocalStore {
-  private readonly filePath: string;
+  private readonly db: Database.Database;
+  private readonly legacyFilePath: string;
 
   constructor(userDataPath: string) {
-    this.filePath = path.join(userDataPath, STATE_FILE_NAME);
-  }
+    const databasePath = path.join(userDataPath, DATABASE_FILE_NAME);
+    this.legacyFilePath = path.join(userDataPath, LEGACY_STATE_FILE_NAME);
 
-  private async ensureStateFile(): Promise<void> {
+    let recovery: StateRecoveryNotice | undefined;
     try {
-      await fs.access(this.filePath);
-    } catch {
-      await this.writeState(defaultState());
+      this.db = this.openDatabase(databasePath);
+    } catch (error) {
+      // Only a database that is itself unreadable is moved aside; locks, permissions and full disks are rethrown.
+      if (!isUnreadableDatabaseError(error)) throw error;
+      const reason = error instanceof DatabaseVersionError ? 'newerVersion' : 'corrupt';
+      const quarantined = backupPath(databasePath, reason === 'newerVersion' ? 'unreadable' : 'corrupt');
+      for (const suffix of DATABASE_FILE_SUFFIXES) {
+        if (existsSync(`${databasePath}${suffix}`)) renameSync(`${databasePath}${suffix}`, `${quarantined}${suffix}`);
+      }
+      recovery = {
+        ...buildRecoveryNotice(reason, quarantined),
+        message: `${databaseRecoveryMessages[reason]} ${error instanceof Error ? error.message : ''}`.trim()
+      };
+      this.db = this.openDatabase(databasePath);
     }
+
+    if (recovery) this.setSetting(SETTING_RECOVERY, recovery);
+    this.importLegacyJson();
   }
 
-  private normalizeState(state: PersistedState): PersistedState {
-    return {
-      version: STATE_VERSION,
-      encryptedToken: state.encryptedToken,
-      alerts: sortByOrder(state.alerts ?? []),
-      uiPreferences: {
-        ...defaultUiPreferences(),
-        ...(state.uiPreferences ?? {})
-      }
-    };
+  private openDatabase(databasePath: string): Database.Database {
+    const db = new Database(databasePath);
+    try {
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
+      migrateDatabase(db);
+      return db;
+    } catch (error) {
+      db.close();
+      throw error;
+    }
   }
 
-  async readState(): Promise<PersistedState> {
-    await this.ensureStateFile();
-    const content = await fs.readFile(this.filePath, 'utf8');
+  // One-time import of the JSON state file used before the SQLite store.
+  private importLegacyJson(): void {
+    if (this.getSetting<string>(SETTING_JSON_IMPORTED_AT)) return;
+    const markImported = () => this.setSetting(SETTING_JSON_IMPORTED_AT, new Date().toISOString());
 
+    if (!existsSync(this.legacyFilePath)) {
+      markImported();
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(this.legacyFilePath, 'utf8'));
+    } catch {
+      const quarantined = backupPath(this.legacyFilePath, 'corrupt');
+      renameSync(this.legacyFilePath, quarantined);
+      this.setSetting(SETTING_RECOVERY, buildRecoveryNotice('corrupt', quarantined));
+      markImported();
+      return;
+    }
+
+    try {
+      const { state } = migrateState(parsed);
+      this.db.transaction(() => {
+        this.replaceState(state);
+        markImported();
+      })();
+      renameSync(this.legacyFilePath, backupPath(this.legacyFilePath, 'imported'));
+    } catch (error) {
+      const quarantined = backupPath(this.legacyFilePath, 'unreadable');
+      renameSync(this.legacyFilePath, quarantined);
+      const detail = error instanceof StateVersionError ? undefined : error instanceof Error ? error.message : undefined;
+      this.setSetting(SETTING_RECOVERY, buildRecoveryNotice(recoveryReasonFor(error), quarantined, detail));
+      markImported();
+    }
+  }
+
+  private getSetting<T>(key: string): T | undefined {
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+    if (!row) return undefined;
     try {
-      const parsed = JSON.parse(content) as PersistedState;
-      return this.normalizeState(parsed);
+      return JSON.parse(row.value) as T;
     } catch {
-      const cleanState = defaultState();
-      await this.writeState(cleanState);
-      return cleanState;
+      return undefined;
+    }
+  }
+
+  private setSetting(key: string, value: unknown): void {
+    if (value === undefined) {
+      this.db.prepare('DELETE FROM settings WHERE key = ?').run(key);
+      return;
     }
+    this.db
+      .prepare('INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value')
+      .run(key, JSON.stringify(value));
+  }
+
+  private readAlerts(): AlertConfig[] {
+    const rows = this.db.prepare('SELECT data FROM alerts ORDER BY sort_order, created_at').all() as Array<{
+      data: string;
+    }>;
+    return sortByOrder(rows.map((row) => JSON.parse(row.data) as AlertConfig));
+  }
+
+  private writeAlert(alert: AlertConfig): void {
+    this.db
+      .prepare(
+        `INSERT INTO alerts (id, sort_order, created_at, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET sort_order = excluded.sort_order, created_at = excluded.created_at, data = excluded.data`
+      )
+      .run(alert.id, alert.order, alert.createdAt, JSON.stringify(alert));
+  }
+
+  private insertSnapshot(alertId: string, snapshot: AlertSnapshot): void {
+    const recordedAt = snapshotTime(snapshot);
+    if (Number.isNaN(recordedAt)) return;
+    this.db
+      .prepare('INSERT INTO snapshot_history (alert_id, recorded_at, data) VALUES (?, ?, ?)')
+      .run(alertId, recordedAt, JSON.stringify(snapshot));
+  }
+
+  private applyHistoryRetention(alertId: string, now = Date.now()): void {
+    this.db
+      .prepare('DELETE FROM snapshot_history WHERE alert_id = ? AND recorded_at < ?')
+      .run(alertId, now - HISTORY_MAX_AGE_MS);
+    this.db
+      .prepare(
+        `DELETE FROM snapshot_history WHERE alert_id = ? AND id NOT IN (
+           SELECT id FROM snapshot_history WHERE alert_id = ? ORDER BY recorded_at DESC, id DESC LIMIT ?
+         )`
+      )
+      .run(alertId, alertId, HISTORY_MAX_ENTRIES_PER_ALERT);
+  }
+
+  // Must run inside a transaction.
+  private replaceState(state: PersistedState): void {
+    this.db.prepare('DELETE FROM alerts').run();
+    this.db.prepare('DELETE FROM snapshot_history').run();
+
+    for (const alert of state.alerts ?? []) this.writeAlert(alert);
+    for (const [alertId, snapshots] of Object.entries(state.snapshotHistory ?? {})) {
+      for (const snapshot of snapshots) this.insertSnapshot(alertId, snapshot);
+      this.applyHistoryRetention(alertId);
+    }
+
+    this.setSetting(SETTING_CONNECTIONS, state.connections);
+    this.setSetting(SETTING_UI_PREFERENCES, { ...defaultUiPreferences(), ...(state.uiPreferences ?? {}) });
+    this.setSetting(SETTING_RECOVERY, state.recovery);
+  }
+
+  async readState(): Promise<PersistedState> {
+    const rows = this.db.prepare('SELECT alert_id, data FROM snapshot_history ORDER BY recorded_at, id').all() as Array<{
+      alert_id: string;
+      data: string;
+    }>;
+    const snapshotHistory: Record<string, AlertSnapshot[]> = {};
+    for (const row of rows) {
+      (snapshotHistory[row.alert_id] ??= []).push(JSON.parse(row.data) as AlertSnapshot);
+    }
+
+    return {
+      version: CURRENT_STATE_VERSION,
+      connections: this.readConnections(),
+      alerts: this.readAlerts(),
+      snapshotHistory,
+      uiPreferences: await this.getUiPreferences(),
+      recovery: this.getSetting<StateRecoveryNotice>(SETTING_RECOVERY)
+    };
   }
 
   async writeState(state: PersistedState): Promise<void> {
-    const normalized = this.normalizeState(state);
-    const tmpPath = `${this.filePath}.tmp`;
-    await fs.writeFile(tmpPath, JSON.stringify(normalized, null, 2), 'utf8');
-    await fs.rename(tmpPath, this.filePath);
+    this.db.transaction(() => this.replaceState(state))();
   }
 
   async getAlerts(): Promise<AlertConfig[]> {
-    const state = await this.readState();
-    return state.alerts;
+    return this.readAlerts();
+  }
+
+  // Must run inside a transaction.
+  private readAlert(id: string): AlertConfig | undefined {
+    const row = this.db.prepare('SELECT data FROM alerts WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as AlertConfig) : undefined;
+  }
+
+  // Must run inside a transaction.
+  private writeOrder(alerts: AlertConfig[], touchedAt?: string): AlertConfig[] {
+    return alerts.map((alert, index) => {
+      if (alert.order === index && !touchedAt) return alert;
+      const next = { ...alert, order: index, updatedAt: touchedAt ?? alert.updatedAt };
+      this.writeAlert(next);
+      return next;
+    });
+  }
+
+  // Each alert write below reads the stored rows inside its own transaction, so a refresh or edit saved
+  // while the caller was waiting on ClickUp or a backup is never overwritten by a stale copy.
+  async insertAlert(alert: Omit<AlertConfig, 'order'>): Promise<AlertConfig> {
+    return this.db.transaction(() => {
+      const { nextOrder } = this.db
+        .prepare('SELECT COALESCE(MAX(sort_order) + 1, 0) AS nextOrder FROM alerts')
+        .get() as { nextOrder: number };
+      const inserted: AlertConfig = { ...alert, order: nextOrder };
+      this.writeAlert(inserted);
+      return inserted;
+    })();
+  }
+
+  async updateAlert(id: string, update: (current: AlertConfig) => AlertConfig): Promise<AlertConfig> {
+    return this.db.transaction(() => {
+      const current = this.readAlert(id);
+      if (!current) throw new Error('Alert not found.');
+      const updated = { ...update(current), id: current.id };
+      this.writeAlert(updated);
+      return updated;
+    })();
+  }
+
+  async deleteAlert(id: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const deleted = this.db.prepare('DELETE FROM alerts WHERE id = ?').run(id).changes > 0;
+      if (!deleted) return false;
+      this.db.prepare('DELETE FROM snapshot_history WHERE alert_id = ?').run(id);
+      this.writeOrder(this.readAlerts());
+      return true;
+    })();
+  }
+
+  // Listed ids come first in the given order; alerts missing from the list keep their relative order after them.
+  async setOrder(ids: string[]): Promise<AlertConfig[]> {
+    return this.db.transaction(() => {
+      const alerts = this.readAlerts();
+      const position = new Map(ids.map((id, index) => [id, index]));
+      const ordered = [
+        ...alerts
+          .filter((alert) => position.has(alert.id))
+          .sort((a, b) => (position.get(a.id) as number) - (position.get(b.id) as number)),
+        ...alerts.filter((alert) => !position.has(alert.id))
+      ];
+      return this.writeOrder(ordered, new Date().toISOString());
+    })();
+  }
+
+  // Saves alerts and swaps in the given history per alert id in one transaction. Other stored alerts are kept
+  // unless `replaceAll` is set, which removes every alert not in the list.
+  async importAlerts(
+    alerts: AlertConfig[],
+    historyByAlertId: Record<string, AlertSnapshot[]>,
+    options: { replaceAll?: boolean } = {}
+  ): Promise<AlertConfig[]> {
+    return this.db.transaction(() => {
+      if (options.replaceAll) {
+        const keepIds = new Set(alerts.map((alert) => alert.id));
+        const existingIds = this.db.prepare('SELECT id FROM alerts').all() as Array<{ id: string }>;
+        for (const { id } of existingIds) {
+          if (!keepIds.has(id)) this.db.prepare('DELETE FROM alerts WHERE id = ?').run(id);
+        }
+      }
+      for (const alert of alerts) this.writeAlert(alert);
+      for (const [alertId, snapshots] of Object.entries(historyByAlertId)) {
+        this.db.prepare('DELETE FROM snapshot_history WHERE alert_id = ?').run(alertId);
+        for (const snapshot of snapshots) this.insertSnapshot(alertId, snapshot);
+        this.applyHistoryRetention(alertId);
+      }
+      // Imported rows bring their own order, which can collide with or leave gaps between the stored ones.
+      return this.writeOrder(this.readAlerts());
+    })();
+  }
+
+  // Updates only alerts that still exist, merging against the stored row so concurrent edits are kept.
+  async updateAlerts(
+    alerts: AlertConfig[],
+    merge: (current: AlertConfig, next: AlertConfig) => AlertConfig = (_current, next) => next
+  ): Promise<AlertConfig[]> {
+    this.db.transaction(() => {
+      for (const alert of alerts) {
+        const current = this.readAlert(alert.id);
+        if (current) this.writeAlert(merge(current, alert));
+      }
+    })();
+    return this.readAlerts();
+  }
+
+  async appendSnapshotHistory(alerts: AlertConfig[]): Promise<void> {
+    const recordable = alerts.filter((alert) => alert.lastSnapshot && alert.lastSnapshot.status !== 'inactive');
+    if (recordable.length === 0) return;
+
+    this.db.transaction(() => {
+      const alertExists = this.db.prepare('SELECT 1 FROM alerts WHERE id = ?');
+      for (const alert of recordable) {
+        // An alert deleted while its refresh was in flight gets no history.
+        if (!alertExists.get(alert.id)) continue;
+        this.insertSnapshot(alert.id, alert.lastSnapshot as AlertSnapshot);
+        this.applyHistoryRetention(alert.id);
+      }
+    })();
+  }
+
+  // The date bounds are whole days in `timeZone`, the alert's or its workspace's, like a custom time range.
+  async getSnapshotHistory(query: SnapshotHistoryQuery, timeZone?: string): Promise<AlertSnapshot[]> {
+    const startMs = query.startDate
+      ? startOfDay(parseDateInput(query.startDate, timeZone)).getTime()
+      : Number.MIN_SAFE_INTEGER;
+    const endMs = query.endDate ? endOfDay(parseDateInput(query.endDate, timeZone)).getTime() : Number.MAX_SAFE_INTEGER;
+
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM snapshot_history
+         WHERE alert_id = ? AND recorded_at >= ? AND recorded_at <= ?
+         ORDER BY recorded_at, id`
+      )
+      .all(query.alertId, startMs, endMs) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as AlertSnapshot);
+  }
+
+  private readConnections(): StoredConnection[] {
+    return this.getSetting<StoredConnection[]>(SETTING_CONNECTIONS) ?? [];
   }
 
-  async setAlerts(alerts: AlertConfig[]): Promise<AlertConfig[]> {
-    const state = await this.readState();
-    const nextAlerts = sortByOrder(alerts);
-    await this.writeState({ ...state, alerts: nextAlerts });
-    return nextAlerts;
+  async hasConnections(): Promise<boolean> {
+    return this.readConnections().length > 0;
   }
 
-  async hasToken(): Promise<boolean> {
-    const state = await this.readState();
-    return Boolean(state.encryptedToken);
+  async getConnections(): Promise<ClickUpConnection[]> {
+    return this.readConnections().map(withoutToken);
   }
 
-  async getToken(): Promise<string | undefined> {
-    const state = await this.readState();
-    if (!state.encryptedToken) return undefined;
+  async getConnectionToken(id: string): Promise<string | undefined> {
+    const connection = this.readConnections().find((item) => item.id === id);
+    if (!connection) return undefined;
 
     try {
-      const token = decryptToken(state.encryptedToken);
+      const token = decryptToken(connection.encryptedToken);
       return token || undefined;
     } catch {
       return undefined;
     }
   }
 
-  async setToken(token: string): Promise<void> {
-    const state = await this.readState();
-    await this.writeState({ ...state, encryptedToken: encryptToken(token.trim()) });
+  async saveConnection(input: ConnectionInput): Promise<ClickUpConnection> {
+    const name = input.name.trim();
+    const token = input.token?.trim();
+    if (!name) throw new Error('Connection name is required.');
+
+    return this.db.transaction(() => {
+      const connections = this.readConnections();
+      const existing = input.id ? connections.find((item) => item.id === input.id) : undefined;
+      if (input.id && !existing) throw new Error('Connection not found.');
+
+      let saved: StoredConnection;
+      if (existing) {
+        // A new token invalidates the previous test result and workspace list.
+        saved = token
+          ? {
+              ...existing,
+              name,
+              encryptedToken: encryptToken(token),
+              teams: [],
+              testStatus: 'untested',
+              testMessage: undefined,
+              testedAt: undefined
+            }
+          : { ...existing, name };
+      } else {
+        if (!token) throw new Error('Token cannot be empty.');
+        saved = {
+          id: randomUUID(),
+          name,
+          encryptedToken: encryptToken(token),
+          teams: [],
+          testStatus: 'untested',
+          createdAt: new Date().toISOString()
+        };
+      }
+
+      this.setSetting(
+        SETTING_CONNECTIONS,
+        existing ? connections.map((item) => (item.id === saved.id ? saved : item)) : [...connections, saved]
+      );
+      return withoutToken(saved);
+    })();
   }
 
-  async clearToken(): Promise<void> {
-    const state = await this.readState();
-    await this.writeState({ ...state, encryptedToken: undefined });
+  async updateConnectionStatus(
+    id: string,
+    status: Partial<Pick<ClickUpConnection, 'teams' | 'testStatus' | 'testMessage' | 'testedAt'>>
+  ): Promise<ClickUpConnection | undefined> {
+    return this.db.transaction(() => {
+      const connections = this.readConnections();
+      const existing = connections.find((item) => item.id === id);
+      if (!existing) return undefined;
+
+      const updated: StoredConnection = { ...existing, ...status };
+      this.setSetting(SETTING_CONNECTIONS, connections.map((item) => (item.id === id ? updated : item)));
+      return withoutToken(updated);
+    })();
   }
 
-  async getUiPreferences(): Promise<UiPreferences> {
-    const state = await this.readState();
-    return state.uiPreferences;
+  async deleteConnection(id: string): Promise<void> {
+    this.db.transaction(() => {
+      this.setSetting(SETTING_CONNECTIONS, this.readConnections().filter((item) => item.id !== id));
+    })();
   }
 
-  async setUiPreferences(partial: Partial<UiPreferences>): Promise<UiPreferences> {
-    const state = await this.readState();
-    const nextPrefs: UiPreferences = {
+  async getRecoveryNotice(): Promise<StateRecoveryNotice | undefined> {
+    return this.getSetting<StateRecoveryNotice>(SETTING_RECOVERY);
+  }
+
+  async dismissRecoveryNotice(): Promise<void> {
+    this.setSetting(SETTING_RECOVERY, undefined);
+  }
+
+  async getUiPreferences(): Promise<UiPreferences> {
+    return {
       ...defaultUiPreferences(),
-      ...state.uiPreferences,
-      ...partial
+      ...(this.getSetting<Partial<UiPreferences>>(SETTING_UI_PREFERENCES) ?? {})
     };
-    await this.writeState({ ...state, uiPreferences: nextPrefs });
-    return nextPrefs;
+  }
+
+  async setUiPreferences(partial: Partial<UiPreferences>): Promise<UiPreferences> {
+    return this.db.transaction((): UiPreferences => {
+      const nextPrefs: UiPreferences = {
+        ...defaultUiPreferences(),
+        ...(this.getSetting<Partial<UiPreferences>>(SETTING_UI_PREFERENCES) ?? {}),
+        ...partial
+      };
+      this.setSetting(SETTING_UI_PREFERENCES, nextPrefs);
+      return nextPrefs;
+    })();
+  }
+
+  close(): void {
+    this.db.close();
   }
 }
@@ -0,0 +1,24 @@
+import type { TaskInfo, TaskSearchResult } from '../../src/shared/types';
+
+const MAX_SEARCH_RESULTS = 50;
+const HOUR_MS = 3_600_000;
+
+export const searchTasks = (tasks: TaskInfo[], search: string): TaskSearchResult[] => {
+  const needle = search.trim().toLowerCase();
+  const seen = new Set<string>();
+
+  return tasks
+    .filter((task) => {
+      if (seen.has(task.id)) return false;
+      seen.add(task.id);
+      return !needle || task.name.toLowerCase().includes(needle) || task.id.toLowerCase().includes(needle);
+    })
+    .slice(0, MAX_SEARCH_RESULTS)
+    .map((task) => ({
+      id: task.id,
+      name: task.name,
+      listId: task.listId,
+      status: task.status,
+      trackedHours: task.timeSpentMs !== undefined ? Math.round((task.timeSpentMs / HOUR_MS) * 100) / 100 : undefined
+    }));
+};
@@ -0,0 +1,117 @@
+import { Menu, nativeImage, Tray, type MenuItemConstructorOptions, type NativeImage } from 'electron';
+
+import { getWorstAlertStatus } from '../../src/shared/status';
+import type { AlertConfig, AlertStatus } from '../../src/shared/types';
+
+const ICON_SIZE = 32;
+
+const statusColor: Record<AlertStatus, [number, number, number]> = {
+  green: [0x58, 0x81, 0x57],
+  projected: [0xd3, 0x9f, 0x4f],
+  yellow: [0xd3, 0x9f, 0x4f],
+  red: [0xb0, 0x4a, 0x36],
+  error: [0xb8, 0x6a, 0x4d],
+  inactive: [0xd7, 0xd2, 0xc8]
+};
+
+const statusText: Record<AlertStatus, string> = {
+  green: 'Safe',
+  projected: 'Projected over',
+  yellow: 'Warning',
+  red: 'Critical',
+  error: 'Error',
+  inactive: 'Inactive'
+};
+
+const createStatusIcon = (status: AlertStatus): NativeImage => {
+  const [red, green, blue] = statusColor[status];
+  const buffer = Buffer.alloc(ICON_SIZE * ICON_SIZE * 4);
+  const center = (ICON_SIZE - 1) / 2;
+  const radius = ICON_SIZE / 2 - 4;
+
+  for (let y = 0; y < ICON_SIZE; y += 1) {
+    for (let x = 0; x < ICON_SIZE; x += 1) {
+      const distance = Math.hypot(x - center, y - center);
+      const alpha = Math.max(0, Math.min(1, radius + 0.5 - distance));
+      const offset = (y * ICON_SIZE + x) * 4;
+      // Bitmaps are BGRA with premultiplied alpha.
+      buffer[offset] = Math.round(blue * alpha);
+      buffer[offset + 1] = Math.round(green * alpha);
+      buffer[offset + 2] = Math.round(red * alpha);
+      buffer[offset + 3] = Math.round(255 * alpha);
+    }
+  }
+
+  return nativeImage.createFromBitmap(buffer, { width: ICON_SIZE, height: ICON_SIZE, scaleFactor: 2 });
+};
+
+export interface StatusTrayActions {
+  openDashboard: (alertId?: string) => void;
+  refreshAll: () => void;
+  quit: () => void;
+}
+
+export class StatusTray {
+  private readonly tray: Tray;
+  private readonly actions: StatusTrayActions;
+  private refreshing = false;
+  private alerts: AlertConfig[] = [];
+
+  constructor(actions: StatusTrayActions) {
+    this.actions = actions;
+    this.tray = new Tray(createStatusIcon('inactive'));
+    this.tray.setToolTip('ClickUp Budget Alert Monitor');
+    this.tray.on('double-click', () => actions.openDashboard());
+  }
+
+  setRefreshing(refreshing: boolean): void {
+    if (this.refreshing === refreshing) return;
+    this.refreshing = refreshing;
+    this.update(this.alerts);
+  }
+
+  update(alerts: AlertConfig[]): void {
+    this.alerts = alerts;
+    const activeAlerts = alerts.filter((alert) => alert.active);
+    const worstStatus = activeAlerts.length > 0 ? getWorstAlertStatus(activeAlerts) : 'inactive';
+    const flagged = activeAlerts
+      .filter((alert) => ['red', 'yellow', 'projected'].includes(alert.lastSnapshot?.status ?? ''))
+      .sort((a, b) => (b.lastSnapshot?.percentUsed ?? 0) - (a.lastSnapshot?.percentUsed ?? 0));
+
+    this.tray.setImage(createStatusIcon(worstStatus));
+    this.tray.setToolTip(
+      activeAlerts.length > 0
+        ? `ClickUp Budget Alert Monitor: ${statusText[worstStatus]} (${flagged.length} flagged)`
+        : 'ClickUp Budget Alert Monitor: no active alerts'
+    );
+
+    const alertItems: MenuItemConstructorOptions[] =
+      flagged.length > 0
+        ? flagged.map((alert) => ({
+            label: `${statusText[alert.lastSnapshot?.status ?? 'inactive']} · ${alert.name} (${(alert.lastSnapshot?.percentUsed ?? 0).toFixed(1)}%)`,
+            click: () => this.actions.openDashboard(alert.id)
+          }))
+        : [{ label: 'All alerts within budget', enabled: false }];
+
+    this.tray.setContextMenu(
+      Menu.buildFromTemplate([
+        { label: `${activeAlerts.length} active alert${activeAlerts.length === 1 ? '' : 's'}`, enabled: false },
+        { type: 'separator' },
+        ...alertItems,
+        { type: 'separator' },
+        {
+          label: this.refreshing ? 'Refreshing...' : 'Refresh all',
+          enabled: !this.refreshing,
+          click: () => this.actions.refreshAll()
+        },
+        { label: 'Open dashboard', click: () => this.actions.openDashboard() },
+        { type: 'separator' },
+        { label: 'Quit', click: () => this.actions.quit() }
+      ])
+    );
+  }
+
+  destroy(): void {
+    this.tray.destroy();
+  }
+}
@@ -4,37 +4,67 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 import { AlertCard } from './components/AlertCard';
 import { AlertFormModal } from './components/AlertFormModal';
 import { AuthPanel } from './components/AuthPanel';
+import { EntryBreakdownPanel } from './components/EntryBreakdownPanel';
+import { ExportAlertsModal } from './components/ExportAlertsModal';
+import { ImportAlertsModal } from './components/ImportAlertsModal';
+import { SettingsPanel } from './components/SettingsPanel';
+import { StateRecoveryPrompt } from './components/StateRecoveryPrompt';
 import { SummaryStrip } from './components/SummaryStrip';
 import { useBudgetMonitorStore } from './hooks/useBudgetMonitorStore';
-import type { AlertConfig, AlertDraft, RefreshAlertResult } from './shared/types';
+import type { AlertConfig, AlertDraft, AlertImportPreview } from './shared/types';
 import { computeSummary, getVisibleAlerts, statusFilterOptions } from './utils';
 
 const HOURLY_REFRESH_MS = 60 * 60 * 1000;
-const QUEUE_DELAY_MS = 30 * 1000;
-const MAX_RATE_LIMIT_RETRIES = 3;
-
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-const isRateLimitError = (message?: string): boolean => /rate\\s*limit|429|too many requests/i.test(message ?? '');
+const API_STATUS_POLL_MS = 2_000;
 
 const toDraft = (alert: AlertConfig): AlertDraft => ({
   name: alert.name,
   description: alert.description,
   type: alert.type,
+  connectionId: alert.connectionId,
   teamId: alert.teamId,
+  spaceId: alert.spaceId,
+  spaceName: alert.spaceName,
   folderId: alert.folderId,
   folderName: alert.folderName,
   listId: alert.listId,
   listName: alert.listName,
   customScopeType: alert.customScopeType,
+  scopes: alert.scopes,
   timeRangeMode: alert.timeRangeMode,
   startDate: alert.startDate,
   endDate: alert.endDate,
+  timeZone: alert.timeZone,
+  weekStartsOn: alert.weekStartsOn,
+  rollingDays: alert.rollingDays,
+  fiscalYearStartMonth: alert.fiscalYearStartMonth,
+  recurringPeriod: alert.recurringPeriod,
+  rolloverMode: alert.rolloverMode,
+  rolloverCapHours: alert.rolloverCapHours,
+  budgetSource: alert.budgetSource,
   budgetHours: alert.budgetHours,
+  budgetAmount: alert.budgetAmount,
+  currency: alert.currency,
+  hourlyRate: alert.hourlyRate,
+  userRates: alert.userRates,
+  tagRates: alert.tagRates,
   warningThresholdPct: alert.warningThresholdPct,
   criticalThresholdPct: alert.criticalThresholdPct,
   excludedTaskIds: alert.excludedTaskIds,
   includeOnlyTaskIds: alert.includeOnlyTaskIds,
+  taskNames: alert.taskNames,
+  taskRules: alert.taskRules,
+  userFilterMode: alert.userFilterMode,
+  userIds: alert.userIds,
+  perPersonCapHours: alert.perPersonCapHours,
+  billableFilter: alert.billableFilter,
+  excludeRunningTimers: alert.excludeRunningTimers,
+  includedTaskTags: alert.includedTaskTags,
+  excludedTaskTags: alert.excludedTaskTags,
+  includedEntryTags: alert.includedEntryTags,
+  excludedEntryTags: alert.excludedEntryTags,
   refreshFrequencyMinutes: alert.refreshFrequencyMinutes,
+  notifyOn: alert.notifyOn,
   active: alert.active
 });
 
@@ -48,10 +78,13 @@ function App() {
     uiPreferences,
     errorMessage,
     noticeMessage,
+    recovery,
     refreshingAll,
     refreshingAlertIds,
+    schedulerStatus,
+    cacheStats,
+    rateLimitStatus,
     init,
-    clearToken,
     createAlert,
     updateAlert,
     deleteAlert,
@@ -61,14 +94,26 @@ function App() {
     refreshAll,
     updateUiPreferences,
     exportCsv,
+    exportAlerts,
+    previewAlertImport,
+    importAlerts,
+    restoreBackup,
+    clearResponseCache,
+    loadApiStatus,
+    dismissRecovery,
+    revealStateBackup,
+    applySchedulerProgress,
     clearMessage
   } = useBudgetMonitorStore();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingAlert, setEditingAlert] = useState<AlertConfig>();
-  const [hourlyRefreshInProgress, setHourlyRefreshInProgress] = useState(false);
-  const [nextHourlyRunAt, setNextHourlyRunAt] = useState<number>(Date.now() + 5_000);
   const [localNotice, setLocalNotice] = useState<string>();
+  const [focusedAlertId, setFocusedAlertId] = useState<string>();
+  const [detailsAlertId, setDetailsAlertId] = useState<string>();
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [importPreview, setImportPreview] = useState<AlertImportPreview>();
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   useEffect(() => {
     void init();
@@ -77,6 +122,7 @@ function App() {
   const orderedAlerts = useMemo(() => [...alerts].sort((a, b) => a.order - b.order), [alerts]);
   const visibleAlerts = useMemo(() => getVisibleAlerts(orderedAlerts, uiPreferences), [orderedAlerts, uiPreferences]);
   const summary = useMemo(() => computeSummary(orderedAlerts), [orderedAlerts]);
+  const detailsAlert = useMemo(() => alerts.find((alert) => alert.id === detailsAlertId), [alerts, detailsAlertId]);
 
   const handleCreate = () => {
     setEditingAlert(undefined);
@@ -108,6 +154,21 @@ function App() {
     await createAlert(draft);
   };
 
+  const handleOpenImport = async () => {
+    const preview = await previewAlertImport();
+    if (preview) setImportPreview(preview);
+  };
+
+  const handleExcludeTask = async (alert: AlertConfig, taskId: string, taskName: string) => {
+    if (alert.excludedTaskIds.includes(taskId)) return;
+    await updateAlert(alert.id, {
+      ...toDraft(alert),
+      excludedTaskIds: [...alert.excludedTaskIds, taskId],
+      taskNames: { ...alert.taskNames, [taskId]: taskName }
+    });
+    setLocalNotice('Task excluded. Refresh the alert to recalculate hours.');
+  };
+
   const handleCopySnapshot = useCallback(async (alertId: string) => {
     const cardElement = document.querySelector<HTMLElement>(`[data-alert-card-id="${alertId}"]`);
     if (!cardElement) {
@@ -130,68 +191,32 @@ function App() {
     }
   }, []);
 
-  const runQueuedHourlyRefresh = useCallback(async () => {
-    if (hourlyRefreshInProgress) return;
+  useEffect(() => window.clickupMonitor.onSchedulerProgress(applySchedulerProgress), [applySchedulerProgress]);
 
-    const activeAlertIds = orderedAlerts.filter((alert) => alert.active).map((alert) => alert.id);
-    setNextHourlyRunAt(Date.now() + HOURLY_REFRESH_MS);
-
-    if (activeAlertIds.length === 0) return;
-
-    setHourlyRefreshInProgress(true);
-    setLocalNotice('Hourly queued refresh started.');
-
-    const queue = [...activeAlertIds];
-    const retryMap = new Map<string, number>();
-
-    try {
-      while (queue.length > 0) {
-        const alertId = queue.shift();
-        if (!alertId) break;
-
-        let result: RefreshAlertResult | undefined;
-        let refreshErrorMessage: string | undefined;
-
-        try {
-          result = await refreshAlert(alertId);
-          refreshErrorMessage = result.errorMessage;
-        } catch (error) {
-          refreshErrorMessage = error instanceof Error ? error.message : 'Unknown refresh failure.';
-        }
+  useEffect(
+    () =>
+      window.clickupMonitor.onFocusAlert((alertId) => {
+        updateUiPreferences({ search: '', statusFilter: 'all' });
+        setFocusedAlertId(alertId);
+      }),
+    [updateUiPreferences]
+  );
 
-        if (isRateLimitError(refreshErrorMessage)) {
-          const retries = retryMap.get(alertId) ?? 0;
-          if (retries < MAX_RATE_LIMIT_RETRIES) {
-            retryMap.set(alertId, retries + 1);
-            queue.push(alertId);
-          }
-        }
+  useEffect(() => {
+    if (!focusedAlertId) return;
 
-        if (queue.length > 0) {
-          await sleep(QUEUE_DELAY_MS);
-        }
-      }
+    const cardElement = document.querySelector<HTMLElement>(`[data-alert-card-id="${focusedAlertId}"]`);
+    cardElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
 
-      setLocalNotice('Hourly queued refresh completed.');
-    } finally {
-      setHourlyRefreshInProgress(false);
-    }
-  }, [hourlyRefreshInProgress, orderedAlerts, refreshAlert]);
+    const timer = setTimeout(() => setFocusedAlertId(undefined), 4_000);
+    return () => clearTimeout(timer);
+  }, [focusedAlertId, visibleAlerts]);
 
   useEffect(() => {
-    if (!auth.hasToken) return;
-
-    const tick = () => {
-      if (hourlyRefreshInProgress) return;
-      if (Date.now() >= nextHourlyRunAt) {
-        void runQueuedHourlyRefresh();
-      }
-    };
-
-    tick();
-    const timer = setInterval(tick, 5_000);
+    if (!refreshingAll && !schedulerStatus.running) return;
+    const timer = setInterval(() => void loadApiStatus(), API_STATUS_POLL_MS);
     return () => clearInterval(timer);
-  }, [auth.hasToken, hourlyRefreshInProgress, nextHourlyRunAt, runQueuedHourlyRefresh]);
+  }, [refreshingAll, schedulerStatus.running, loadApiStatus]);
 
   useEffect(() => {
     if (!localNotice) return;
@@ -200,10 +225,10 @@ function App() {
   }, [localNotice]);
 
   const appSignal = useMemo(() => {
-    if (hourlyRefreshInProgress) {
+    if (schedulerStatus.running) {
       return {
         tone: 'yellow' as const,
-        label: 'Queued update in progress'
+        label: `Scheduled refresh in progress (${schedulerStatus.completed}/${schedulerStatus.total})`
       };
     }
 
@@ -234,7 +259,7 @@ function App() {
       tone: 'green' as const,
       label: 'All alerts updated in the last hour'
     };
-  }, [hourlyRefreshInProgress, orderedAlerts]);
+  }, [schedulerStatus, orderedAlerts]);
 
   const signalDotClass =
     appSignal.tone === 'green' ? 'bg-moss' : appSignal.tone === 'yellow' ? 'bg-amberearth' : 'bg-terracotta';
@@ -247,10 +272,15 @@ function App() {
     );
   }
 
-  if (!auth.hasToken) {
+  if (auth.connections.length === 0) {
     return (
       <main className="min-h-screen bg-[radial-gradient(circle_at_top,_rgba(214,196,164,0.35),_rgba(248,245,239,1)_55%)] px-6 pb-10 pt-2">
         <AuthPanel />
+        <StateRecoveryPrompt
+          recovery={recovery}
+          onRevealBackup={() => void revealStateBackup()}
+          onDismiss={() => void dismissRecovery()}
+        />
       </main>
     );
   }
@@ -266,8 +296,28 @@ function App() {
             </div>
             <p className="mt-1 text-sm text-stonewarm-700">
               {auth.teams.length} workspace{auth.teams.length === 1 ? '' : 's'} connected
+              {auth.connections.length > 1 ? ` through ${auth.connections.length} ClickUp connections` : ''}
             </p>
             <p className="text-xs text-stonewarm-700">{appSignal.label}</p>
+            {cacheStats ? (
+              <p
+                className="text-xs text-stonewarm-700"
+                title={cacheStats.endpoints
+                  .map((item) => `${item.endpoint}: ${item.hits} hits, ${item.misses} misses`)
+                  .join('\n')}
+              >
+                API cache: {cacheStats.entryCount} responses, {cacheStats.hitRatePct}% hit rate ({cacheStats.hits} hits,{' '}
+                {cacheStats.misses} misses)
+              </p>
+            ) : null}
+            {rateLimitStatus.map((status) => (
+              <p key={status.connectionId} className="text-xs text-stonewarm-700">
+                API budget{rateLimitStatus.length > 1 ? ` (${status.connectionName})` : ''}: {status.remaining}/
+                {status.limit} requests left
+                {status.queuedRequests > 0 ? `, ${status.queuedRequests} queued` : ''}
+                {status.blockedUntil ? `, paused until ${new Date(status.blockedUntil).toLocaleTimeString()}` : ''}
+              </p>
+            ))}
           </div>
 
           <div className="flex flex-wrap gap-2">
@@ -291,10 +341,29 @@ function App() {
               Export CSV
             </button>
             <button
-              onClick={() => void clearToken()}
-              className="rounded-xl border border-clay-500 px-4 py-2 text-sm font-medium text-clay-600 transition hover:bg-clay-500/10"
+              onClick={() => setIsExportOpen(true)}
+              className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100"
             >
-              Replace Token
+              Export Alerts
+            </button>
+            <button
+              onClick={() => void handleOpenImport()}
+              className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100"
+            >
+              Import Alerts
+            </button>
+            <button
+              onClick={() => void clearResponseCache()}
+              className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100"
+              title="Drop cached ClickUp workspace, folder, list and task responses"
+            >
+              Clear Cache
+            </button>
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100"
+            >
+              Settings
             </button>
           </div>
         </header>
@@ -361,7 +430,7 @@ function App() {
         {visibleAlerts.length === 0 ? (
           <section className="rounded-2xl border border-dashed border-stonewarm-300 bg-white/70 px-6 py-16 text-center shadow-soft">
             <h2 className="text-lg font-semibold text-stonewarm-900">No alerts yet</h2>
-            <p className="mt-2 text-sm text-stonewarm-700">Create your first folder or list budget alert to start monitoring usage.</p>
+            <p className="mt-2 text-sm text-stonewarm-700">Create your first space, folder or list budget alert to start monitoring usage.</p>
             <button
               onClick={handleCreate}
               className="mt-4 rounded-xl bg-olive-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-olive-600"
@@ -378,8 +447,10 @@ function App() {
                   key={alert.id}
                   alert={alert}
                   isRefreshing={refreshingAlertIds.includes(alert.id)}
+                  isHighlighted={focusedAlertId === alert.id}
                   onRefresh={() => void refreshAlert(alert.id)}
                   onEdit={() => handleEdit(alert)}
+                  onOpenDetails={() => setDetailsAlertId(alert.id)}
                   onDelete={() => {
                     if (window.confirm(`Delete alert "${alert.name}"?`)) {
                       void deleteAlert(alert.id);
@@ -409,6 +480,43 @@ function App() {
         }}
         onSubmit={handleSaveAlert}
       />
+
+      <EntryBreakdownPanel
+        alert={detailsAlert}
+        onClose={() => setDetailsAlertId(undefined)}
+        onExcludeTask={(taskId, taskName) =>
+          detailsAlert ? handleExcludeTask(detailsAlert, taskId, taskName) : Promise.resolve()
+        }
+      />
+
+      <ExportAlertsModal
+        open={isExportOpen}
+        alertCount={alerts.length}
+        onClose={() => setIsExportOpen(false)}
+        onExport={async (options) => {
+          if (await exportAlerts(options)) setIsExportOpen(false);
+        }}
+      />
+
+      <ImportAlertsModal
+        preview={importPreview}
+        onClose={() => setImportPreview(undefined)}
+        onImport={async (selections) => {
+          if (await importAlerts(selections)) setImportPreview(undefined);
+        }}
+      />
+
+      <SettingsPanel
+        open={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        onRestore={restoreBackup}
+      />
+
+      <StateRecoveryPrompt
+        recovery={recovery}
+        onRevealBackup={() => void revealStateBackup()}
+        onDismiss={() => void dismissRecovery()}
+      />
     </main>
   );
 }
@@ -1,13 +1,25 @@
 import clsx from 'clsx';
 
-import { formatRelativeRefresh, hours, statusCardClass, statusDotClass, statusLabel } from '../utils';
+import {
+  formatDate,
+  formatRelativeRefresh,
+  hours,
+  money,
+  signedHours,
+  statusCardClass,
+  statusDotClass,
+  statusLabel
+} from '../utils';
+import { describeTaskRule } from '../shared/taskRules';
 import type { AlertConfig } from '../shared/types';
 
 interface AlertCardProps {
   alert: AlertConfig;
   isRefreshing: boolean;
+  isHighlighted?: boolean;
   onRefresh: () => void;
   onEdit: () => void;
+  onOpenDetails: () => void;
   onDelete: () => void;
   onDuplicate: () => void;
   onToggleActive: () => void;
@@ -21,8 +33,10 @@ interface AlertCardProps {
 export function AlertCard({
   alert,
   isRefreshing,
+  isHighlighted = false,
   onRefresh,
   onEdit,
+  onOpenDetails,
   onDelete,
   onDuplicate,
   onToggleActive,
@@ -34,11 +48,21 @@ export function AlertCard({
 }: AlertCardProps) {
   const snapshot = alert.lastSnapshot;
   const status = snapshot?.status ?? (alert.active ? 'inactive' : 'inactive');
+  const forecast = snapshot?.forecast;
+  const cost = snapshot?.cost;
+  const taskLabels = (ids: string[] = []) => {
+    const names = ids.map((id) => alert.taskNames?.[id] ?? id);
+    return names.length > 3 ? `${names.slice(0, 3).join(', ')} +${names.length - 3}` : names.join(', ');
+  };
 
   return (
     <article
       data-alert-card-id={alert.id}
-      className={clsx('rounded-2xl border p-4 shadow-soft transition', statusCardClass[status])}
+      className={clsx(
+        'rounded-2xl border p-4 shadow-soft transition',
+        statusCardClass[status],
+        isHighlighted && 'ring-2 ring-clay-500'
+      )}
     >
       <div className="flex items-start justify-between gap-3">
         <div>
@@ -55,6 +79,16 @@ export function AlertCard({
         <p>{snapshot?.scopeSummary ?? `${alert.type.toUpperCase()} scope`}</p>
         <p>{formatRelativeRefresh(alert.lastRefreshedAt)}</p>
         {snapshot?.errorMessage ? <p className="text-clay-600">{snapshot.errorMessage}</p> : null}
+        {snapshot?.warningMessage ? <p className="text-amberearth">{snapshot.warningMessage}</p> : null}
+        {alert.includeOnlyTaskIds?.length ? <p>Only: {taskLabels(alert.includeOnlyTaskIds)}</p> : null}
+        {alert.excludedTaskIds.length ? <p>Excluding: {taskLabels(alert.excludedTaskIds)}</p> : null}
+        {alert.taskRules?.length ? <p>Rules: {alert.taskRules.map(describeTaskRule).join('; ')}</p> : null}
+        {snapshot?.runningTimerCount ? (
+          <p className="text-olive-600">
+            Includes {hours(snapshot.liveHours ?? 0)} live from {snapshot.runningTimerCount} running timer
+            {snapshot.runningTimerCount === 1 ? '' : 's'}
+          </p>
+        ) : null}
       </div>
 
       <div className="mt-4 grid grid-cols-2 gap-3 text-sm">
@@ -63,8 +97,10 @@ export function AlertCard({
           <p className="mt-1 text-lg font-semibold text-stonewarm-900">{hours(snapshot?.hoursUsed ?? 0)}</p>
         </div>
         <div className="rounded-xl bg-sand-100 p-3">
-          <p className="text-xs uppercase tracking-wide text-stonewarm-700">Budget</p>
-          <p className="mt-1 text-lg font-semibold text-stonewarm-900">{hours(alert.budgetHours)}</p>
+          <p className="text-xs uppercase tracking-wide text-stonewarm-700">
+            {alert.budgetSource === 'estimates' ? 'Budget (estimates)' : 'Budget'}
+          </p>
+          <p className="mt-1 text-lg font-semibold text-stonewarm-900">{hours(snapshot?.budgetHours ?? alert.budgetHours)}</p>
         </div>
       </div>
 
@@ -83,6 +119,160 @@ export function AlertCard({
         <p className="mt-2 text-sm font-medium text-terracotta">Over by {hours(snapshot?.overByHours ?? 0)}</p>
       ) : null}
 
+      {cost ? (
+        <div className="mt-3 grid grid-cols-2 gap-3 rounded-xl bg-sand-100 p-3 text-sm">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-stonewarm-700">Cost used</p>
+            <p className="mt-1 font-semibold text-stonewarm-900">{money(cost.costUsed, cost.currency)}</p>
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-wide text-stonewarm-700">
+              {cost.budgetAmount !== undefined ? 'Cost remaining' : 'Budget amount'}
+            </p>
+            <p className="mt-1 font-semibold text-stonewarm-900">
+              {cost.budgetAmount !== undefined
+                ? `${money(cost.costRemaining ?? 0, cost.currency)} of ${money(cost.budgetAmount, cost.currency)}`
+                : 'Not set'}
+            </p>
+          </div>
+          {(cost.overByAmount ?? 0) > 0 ? (
+            <p className="col-span-2 text-sm font-medium text-terracotta">
+              Over by {money(cost.overByAmount ?? 0, cost.currency)}
+            </p>
+          ) : null}
+          {cost.unratedHours > 0 ? (
+            <p className="col-span-2 text-xs text-stonewarm-700">{hours(cost.unratedHours)} without a matching rate</p>
+          ) : null}
+        </div>
+      ) : null}
+
+      {snapshot?.scopeBreakdown?.length ? (
+        <div className="mt-3 rounded-xl border border-stonewarm-200 px-3 py-2 text-xs text-stonewarm-700">
+          <p className="uppercase tracking-wide">By scope</p>
+          <ul className="mt-1 space-y-1">
+            {snapshot.scopeBreakdown.map((scope) => (
+              <li key={`${scope.type}-${scope.id}`} className="flex items-center justify-between gap-2">
+                <span className="truncate text-stonewarm-900">
+                  {scope.type === 'folder' ? 'Folder' : 'List'}: {scope.name}
+                </span>
+                <span className="shrink-0">
+                  {hours(scope.hours)} · {scope.entryCount} entr{scope.entryCount === 1 ? 'y' : 'ies'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {snapshot?.estimate ? (
+        <div className="mt-3 rounded-xl border border-stonewarm-200 px-3 py-2 text-xs text-stonewarm-700">
+          <p className="uppercase tracking-wide">Estimates</p>
+          <p className="mt-1 text-stonewarm-900">
+            {hours(snapshot.estimate.estimatedHours)} estimated across {snapshot.estimate.estimatedTaskCount} of{' '}
+            {snapshot.estimate.taskCount} tasks
+          </p>
+          <p className="mt-1">
+            Estimate coverage {snapshot.estimate.coveragePercent.toFixed(1)}% of tracked time
+            {snapshot.estimate.overrunningTaskCount > 0
+              ? ` · ${snapshot.estimate.overrunningTaskCount} task${snapshot.estimate.overrunningTaskCount === 1 ? '' : 's'} over estimate`
+              : ''}
+          </p>
+          {snapshot.estimate.topOverruns.length ? (
+            <ul className="mt-1 space-y-1">
+              {snapshot.estimate.topOverruns.map((task) => (
+                <li key={task.taskId} className="flex items-center justify-between gap-2">
+                  <span className="truncate text-stonewarm-900">{task.taskName}</span>
+                  <span className="shrink-0 text-terracotta">
+                    {hours(task.trackedHours)} / {hours(task.estimateHours)} (+{hours(task.overByHours)})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+
+      {snapshot?.perPerson?.length ? (
+        <div className="mt-3 rounded-xl border border-stonewarm-200 px-3 py-2 text-xs text-stonewarm-700">
+          <p className="uppercase tracking-wide">Per person (cap {hours(snapshot.perPerson[0].capHours)})</p>
+          <ul className="mt-1 space-y-1">
+            {snapshot.perPerson.slice(0, 5).map((person) => (
+              <li key={person.userId} className="flex items-center justify-between gap-2">
+                <span className="flex min-w-0 items-center gap-2">
+                  <span className={clsx('h-2 w-2 shrink-0 rounded-full', statusDotClass[person.status])} />
+                  <span className="truncate text-stonewarm-900">{person.userName}</span>
+                </span>
+                <span>
+                  {hours(person.hoursUsed)} · {person.percentUsed.toFixed(0)}%
+                </span>
+              </li>
+            ))}
+          </ul>
+          {snapshot.perPerson.length > 5 ? <p className="mt-1">+{snapshot.perPerson.length - 5} more</p> : null}
+        </div>
+      ) : null}
+
+      {alert.recurringPeriod && alert.periodLedger?.length ? (
+        <div className="mt-3 rounded-xl border border-stonewarm-200 px-3 py-2 text-xs text-stonewarm-700">
+          <p className="uppercase tracking-wide">
+            Period ledger
+            {snapshot?.carriedInHours ? ` · carried in ${signedHours(snapshot.carriedInHours)}` : ''}
+          </p>
+          <table className="mt-1 w-full text-left">
+            <thead>
+              <tr>
+                <th className="py-1 pr-2 font-medium">Period</th>
+                <th className="py-1 pr-2 text-right font-medium">Budget</th>
+                <th className="py-1 pr-2 text-right font-medium">Used</th>
+                <th className="py-1 pr-2 text-right font-medium">Balance</th>
+                <th className="py-1 text-right font-medium">Carried</th>
+              </tr>
+            </thead>
+            <tbody className="text-stonewarm-900">
+              {[...alert.periodLedger]
+                .reverse()
+                .slice(0, 6)
+                .map((period) => (
+                  <tr key={period.periodStart}>
+                    <td className="py-1 pr-2">
+                      {formatDate(period.periodStart, snapshot?.timeZone)} to {formatDate(period.periodEnd, snapshot?.timeZone)}
+                    </td>
+                    <td
+                      className="py-1 pr-2 text-right"
+                      title={period.budgetSource === 'estimates' ? 'Budget taken from task estimates' : undefined}
+                    >
+                      {hours(period.budgetHours + period.carriedInHours)}
+                    </td>
+                    <td className="py-1 pr-2 text-right">{hours(period.hoursUsed)}</td>
+                    <td
+                      className={clsx(
+                        'py-1 pr-2 text-right',
+                        period.closingBalanceHours < 0 ? 'text-terracotta' : 'text-moss'
+                      )}
+                    >
+                      {signedHours(period.closingBalanceHours)}
+                    </td>
+                    <td className="py-1 text-right">{signedHours(period.carriedOutHours)}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {forecast ? (
+        <div className="mt-3 rounded-xl border border-stonewarm-200 px-3 py-2 text-xs text-stonewarm-700">
+          <p className="uppercase tracking-wide">Forecast</p>
+          <p className={clsx('mt-1 font-semibold', status === 'projected' ? 'text-amberearth' : 'text-stonewarm-900')}>
+            {hours(forecast.projectedHours)} by {formatDate(forecast.periodEndsAt, snapshot?.timeZone)} ({forecast.projectedPercent.toFixed(2)}%)
+          </p>
+          <p className="mt-1">
+            Burn rate {hours(forecast.burnRateHoursPerDay)}/day
+            {forecast.projectedExhaustionAt ? ` · budget runs out ${formatDate(forecast.projectedExhaustionAt, snapshot?.timeZone)}` : ''}
+          </p>
+        </div>
+      ) : null}
+
       <div className="mt-4 flex flex-wrap gap-2 text-xs" data-snapshot-exclude="true">
         <button
           onClick={onRefresh}
@@ -94,6 +284,12 @@ export function AlertCard({
         <button onClick={onEdit} className="rounded-lg border border-stonewarm-300 px-3 py-1.5 text-stonewarm-900 hover:bg-sand-100">
           Edit
         </button>
+        <button
+          onClick={onOpenDetails}
+          className="rounded-lg border border-stonewarm-300 px-3 py-1.5 text-stonewarm-900 hover:bg-sand-100"
+        >
+          Entries
+        </button>
         <button
           onClick={onDuplicate}
           className="rounded-lg border border-stonewarm-300 px-3 py-1.5 text-stonewarm-900 hover:bg-sand-100"
@@ -1,8 +1,45 @@
 import { useEffect, useMemo, useState } from 'react';
 
+import { useBudgetMonitorStore } from '../hooks/useBudgetMonitorStore';
+import { DEFAULT_NOTIFY_ON, notificationTriggerOptions } from '../shared/notifications';
+import { findSpaceForScope, getSpaceLists, resolveScopeListIds } from '../shared/scopeTree';
+import {
+  DEFAULT_FISCAL_YEAR_START_MONTH,
+  DEFAULT_WEEK_STARTS_ON,
+  getLocalTimeZone,
+  getTimeZoneOptions,
+  isRecurringTimeRange,
+  monthNames,
+  rolloverModeOptions,
+  timeRangeModeOptions,
+  weekdayNames
+} from '../shared/timeRange';
 import { alertDraftSchema } from '../shared/validation';
-import type { AlertConfig, AlertDraft, ScopeTreeTeam } from '../shared/types';
-import { formatTaskIds, parseTaskIdInput } from '../utils';
+import type {
+  AlertConfig,
+  AlertDraft,
+  AlertScopeRef,
+  AlertType,
+  BillableFilter,
+  BudgetSource,
+  NotificationTrigger,
+  RolloverMode,
+  ScopeTreeSpace,
+  ScopeTreeTeam,
+  ScopeType,
+  TaskRule,
+  TimeRangeMode,
+  UserFilterMode
+} from '../shared/types';
+import {
+  formatRates,
+  formatTaskIds,
+  memberLabel,
+  parseRateInput,
+  parseTagInput
+} from '../utils';
+import { TaskPicker } from './TaskPicker';
+import { TaskRulesEditor } from './TaskRulesEditor';
 
 interface AlertFormModalProps {
   open: boolean;
@@ -15,67 +52,171 @@ interface AlertFormModalProps {
 type FormState = {
   name: string;
   description: string;
-  type: 'folder' | 'list' | 'custom';
+  type: AlertType;
+  connectionId: string;
   teamId: string;
+  spaceId: string;
   folderId: string;
   listId: string;
-  customScopeType: 'folder' | 'list';
-  timeRangeMode: 'monthly' | 'custom' | 'none';
+  customScopeType: ScopeType;
+  scopes: AlertScopeRef[];
+  timeRangeMode: TimeRangeMode;
   startDate: string;
   endDate: string;
+  timeZone: string;
+  weekStartsOn: string;
+  rollingDays: string;
+  fiscalYearStartMonth: string;
+  recurringPeriod: boolean;
+  rolloverMode: RolloverMode;
+  rolloverCapHours: string;
+  budgetSource: BudgetSource;
   budgetHours: string;
+  budgetAmount: string;
+  currency: string;
+  hourlyRate: string;
+  userRates: Record<string, string>;
+  tagRates: string;
   warningThresholdPct: string;
   criticalThresholdPct: string;
-  excludedTaskIds: string;
-  includeOnlyTaskIds: string;
+  excludedTaskIds: string[];
+  includeOnlyTaskIds: string[];
+  taskNames: Record<string, string>;
+  taskRules: TaskRule[];
+  userFilterMode: UserFilterMode;
+  userIds: string[];
+  perPersonCapEnabled: boolean;
+  perPersonCapHours: string;
+  billableFilter: BillableFilter;
+  excludeRunningTimers: boolean;
+  includedTaskTags: string;
+  excludedTaskTags: string;
+  includedEntryTags: string;
+  excludedEntryTags: string;
   refreshFrequencyMinutes: string;
+  notifyOn: NotificationTrigger[];
   active: boolean;
 };
 
+const firstScopeIds = (space?: ScopeTreeSpace): Pick<FormState, 'spaceId' | 'folderId' | 'listId'> => {
+  const firstFolder = space?.folders[0];
+  const firstList = firstFolder?.lists[0] ?? space?.lists[0];
+
+  return {
+    spaceId: space?.id ?? '',
+    folderId: firstFolder?.id ?? '',
+    listId: firstList?.id ?? ''
+  };
+};
+
 const createDefaultState = (scopeTree: ScopeTreeTeam[], initial?: AlertConfig): FormState => {
   if (initial) {
+    // An alert bound to a deleted connection falls back to whichever connection still has its workspace.
+    const connectionId =
+      initial.connectionId && scopeTree.some((item) => item.connectionId === initial.connectionId)
+        ? initial.connectionId
+        : scopeTree.find((item) => item.id === initial.teamId)?.connectionId ?? '';
+    const team = scopeTree.find(
+      (item) => item.id === initial.teamId && (!connectionId || item.connectionId === connectionId)
+    );
+    const space = team ? findSpaceForScope(team, initial) : undefined;
+
     return {
       name: initial.name,
       description: initial.description ?? '',
       type: initial.type,
+      connectionId,
       teamId: initial.teamId,
+      spaceId: initial.spaceId ?? space?.id ?? '',
       folderId: initial.folderId ?? '',
       listId: initial.listId ?? '',
       customScopeType: initial.customScopeType ?? 'folder',
+      scopes: initial.scopes ?? [],
       timeRangeMode: initial.timeRangeMode,
       startDate: initial.startDate ?? '',
       endDate: initial.endDate ?? '',
+      timeZone: initial.timeZone ?? '',
+      weekStartsOn: String(initial.weekStartsOn ?? DEFAULT_WEEK_STARTS_ON),
+      rollingDays: initial.rollingDays ? String(initial.rollingDays) : '30',
+      fiscalYearStartMonth: String(initial.fiscalYearStartMonth ?? DEFAULT_FISCAL_YEAR_START_MONTH),
+      recurringPeriod: initial.recurringPeriod ?? false,
+      rolloverMode: initial.rolloverMode ?? 'none',
+      rolloverCapHours: initial.rolloverCapHours ? String(initial.rolloverCapHours) : '',
+      budgetSource: initial.budgetSource ?? 'manual',
       budgetHours: String(initial.budgetHours),
+      budgetAmount: initial.budgetAmount ? String(initial.budgetAmount) : '',
+      currency: initial.currency ?? 'USD',
+      hourlyRate: initial.hourlyRate !== undefined ? String(initial.hourlyRate) : '',
+      userRates: Object.fromEntries((initial.userRates ?? []).map((rate) => [rate.key, String(rate.hourlyRate)])),
+      tagRates: formatRates(initial.tagRates),
       warningThresholdPct: String(initial.warningThresholdPct),
       criticalThresholdPct: String(initial.criticalThresholdPct),
-      excludedTaskIds: formatTaskIds(initial.excludedTaskIds),
-      includeOnlyTaskIds: formatTaskIds(initial.includeOnlyTaskIds),
+      excludedTaskIds: initial.excludedTaskIds,
+      includeOnlyTaskIds: initial.includeOnlyTaskIds ?? [],
+      taskNames: initial.taskNames ?? {},
+      taskRules: initial.taskRules ?? [],
+      userFilterMode: initial.userFilterMode ?? 'all',
+      userIds: initial.userIds ?? [],
+      perPersonCapEnabled: Boolean(initial.perPersonCapHours),
+      perPersonCapHours: initial.perPersonCapHours ? String(initial.perPersonCapHours) : '10',
+      billableFilter: initial.billableFilter ?? 'all',
+      excludeRunningTimers: initial.excludeRunningTimers ?? false,
+      includedTaskTags: formatTaskIds(initial.includedTaskTags),
+      excludedTaskTags: formatTaskIds(initial.excludedTaskTags),
+      includedEntryTags: formatTaskIds(initial.includedEntryTags),
+      excludedEntryTags: formatTaskIds(initial.excludedEntryTags),
       refreshFrequencyMinutes: String(initial.refreshFrequencyMinutes ?? 0),
+      notifyOn: initial.notifyOn ?? DEFAULT_NOTIFY_ON,
       active: initial.active
     };
   }
 
   const firstTeam = scopeTree[0];
-  const firstFolder = firstTeam?.folders[0];
-  const firstList = firstFolder?.lists[0];
 
   return {
     name: '',
     description: '',
     type: 'folder',
+    connectionId: firstTeam?.connectionId ?? '',
     teamId: firstTeam?.id ?? '',
-    folderId: firstFolder?.id ?? '',
-    listId: firstList?.id ?? '',
+    ...firstScopeIds(firstTeam?.spaces[0]),
     customScopeType: 'folder',
+    scopes: [],
     timeRangeMode: 'monthly',
     startDate: '',
     endDate: '',
+    timeZone: '',
+    weekStartsOn: String(DEFAULT_WEEK_STARTS_ON),
+    rollingDays: '30',
+    fiscalYearStartMonth: String(DEFAULT_FISCAL_YEAR_START_MONTH),
+    recurringPeriod: false,
+    rolloverMode: 'none',
+    rolloverCapHours: '',
+    budgetSource: 'manual',
     budgetHours: '50',
+    budgetAmount: '',
+    currency: 'USD',
+    hourlyRate: '',
+    userRates: {},
+    tagRates: '',
     warningThresholdPct: '80',
     criticalThresholdPct: '100',
-    excludedTaskIds: '',
-    includeOnlyTaskIds: '',
+    excludedTaskIds: [],
+    includeOnlyTaskIds: [],
+    taskNames: {},
+    taskRules: [],
+    userFilterMode: 'all',
+    userIds: [],
+    perPersonCapEnabled: false,
+    perPersonCapHours: '10',
+    billableFilter: 'all',
+    excludeRunningTimers: false,
+    includedTaskTags: '',
+    excludedTaskTags: '',
+    includedEntryTags: '',
+    excludedEntryTags: '',
     refreshFrequencyMinutes: '0',
+    notifyOn: DEFAULT_NOTIFY_ON,
     active: true
   };
 };
@@ -87,23 +228,77 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
   const [form, setForm] = useState<FormState>(() => createDefaultState(scopeTree, initialAlert));
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
+  // Workspace default timezones edited here are saved with the alert, not as the select changes.
+  const [workspaceTimeZoneDrafts, setWorkspaceTimeZoneDrafts] = useState<Record<string, string>>({});
+  const connections = useBudgetMonitorStore((state) => state.auth.connections);
+  const teamMembers = useBudgetMonitorStore((state) => state.teamMembers[form.teamId]);
+  const loadTeamMembers = useBudgetMonitorStore((state) => state.loadTeamMembers);
+  const workspaceTimeZones = useBudgetMonitorStore((state) => state.uiPreferences.workspaceTimeZones);
+  const updateUiPreferences = useBudgetMonitorStore((state) => state.updateUiPreferences);
+  const timeZoneOptions = useMemo(() => getTimeZoneOptions(), []);
+  const workspaceTimeZone = workspaceTimeZoneDrafts[form.teamId] ?? workspaceTimeZones[form.teamId] ?? '';
+
+  const setWorkspaceTimeZone = (timeZone: string) =>
+    setWorkspaceTimeZoneDrafts((current) => ({ ...current, [form.teamId]: timeZone }));
+
+  const saveWorkspaceTimeZone = () => {
+    if (workspaceTimeZone === (workspaceTimeZones[form.teamId] ?? '')) return;
+    const next = { ...workspaceTimeZones };
+    if (workspaceTimeZone) {
+      next[form.teamId] = workspaceTimeZone;
+    } else {
+      delete next[form.teamId];
+    }
+    updateUiPreferences({ workspaceTimeZones: next });
+  };
+
+  useEffect(() => {
+    if (open && form.teamId) {
+      void loadTeamMembers(form.teamId, form.connectionId || undefined);
+    }
+  }, [open, form.teamId, form.connectionId, loadTeamMembers]);
 
   useEffect(() => {
     if (open) {
       setForm(createDefaultState(scopeTree, initialAlert));
+      setWorkspaceTimeZoneDrafts({});
       setErrors({});
     }
   }, [open, scopeTree, initialAlert]);
 
-  const selectedTeam = useMemo(() => scopeTree.find((team) => team.id === form.teamId), [scopeTree, form.teamId]);
-  const folders = selectedTeam?.folders ?? [];
-  const allLists = useMemo(() => folders.flatMap((folder) => folder.lists), [folders]);
+  const connectionTeams = useMemo(
+    () => scopeTree.filter((team) => !form.connectionId || team.connectionId === form.connectionId),
+    [scopeTree, form.connectionId]
+  );
+  const selectedTeam = useMemo(
+    () => connectionTeams.find((team) => team.id === form.teamId),
+    [connectionTeams, form.teamId]
+  );
+  const spaces = selectedTeam?.spaces ?? [];
+  const selectedSpace = useMemo(() => spaces.find((space) => space.id === form.spaceId), [spaces, form.spaceId]);
+  const folders = selectedSpace?.folders ?? [];
+  const allLists = useMemo(() => (selectedSpace ? getSpaceLists(selectedSpace) : []), [selectedSpace]);
+
+  const scopeListIds = useMemo(
+    () =>
+      selectedTeam
+        ? resolveScopeListIds(
+            {
+              type: form.type,
+              customScopeType: form.customScopeType,
+              spaceId: form.spaceId,
+              folderId: form.folderId,
+              listId: form.listId,
+              scopes: form.scopes
+            },
+            selectedTeam
+          )
+        : [],
+    [selectedTeam, form.type, form.customScopeType, form.spaceId, form.folderId, form.listId, form.scopes]
+  );
 
-  const currentFolderLists = useMemo(() => {
-    if (!form.folderId) return allLists;
-    const folder = folders.find((item) => item.id === form.folderId);
-    return folder?.lists ?? [];
-  }, [allLists, folders, form.folderId]);
+  const scopeType: ScopeType | undefined =
+    form.type === 'multi' ? undefined : form.type === 'custom' ? form.customScopeType : form.type;
 
   if (!open) return null;
 
@@ -111,16 +306,38 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
     setForm((prev) => ({ ...prev, [key]: value }));
   };
 
+  const handleConnectionChange = (connectionId: string) => {
+    const team = scopeTree.find((item) => item.connectionId === connectionId);
+
+    setForm((prev) => ({
+      ...prev,
+      connectionId,
+      teamId: team?.id ?? '',
+      userIds: [],
+      scopes: [],
+      ...firstScopeIds(team?.spaces[0])
+    }));
+  };
+
   const handleTeamChange = (teamId: string) => {
-    const team = scopeTree.find((item) => item.id === teamId);
-    const firstFolder = team?.folders[0];
-    const firstList = firstFolder?.lists[0];
+    const team = connectionTeams.find((item) => item.id === teamId);
 
     setForm((prev) => ({
       ...prev,
       teamId,
-      folderId: firstFolder?.id ?? '',
-      listId: firstList?.id ?? ''
+      userIds: [],
+      scopes: [],
+      ...firstScopeIds(team?.spaces[0])
+    }));
+  };
+
+  const handleSpaceChange = (spaceId: string) => {
+    const space = spaces.find((item) => item.id === spaceId);
+
+    setForm((prev) => ({
+      ...prev,
+      ...firstScopeIds(space),
+      spaceId
     }));
   };
 
@@ -133,31 +350,104 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
     }));
   };
 
+  const isScopeSelected = (type: AlertScopeRef['type'], id: string) =>
+    form.scopes.some((scope) => scope.type === type && scope.id === id);
+
+  const toggleScope = (scope: AlertScopeRef, enabled: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      scopes: enabled
+        ? [...prev.scopes, scope]
+        : prev.scopes.filter((item) => item.type !== scope.type || item.id !== scope.id)
+    }));
+  };
+
+  const updateUserRate = (userId: string, rate: string) => {
+    setForm((prev) => ({ ...prev, userRates: { ...prev.userRates, [userId]: rate } }));
+  };
+
+  const toggleUserId = (userId: string, enabled: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      userIds: enabled ? [...prev.userIds, userId] : prev.userIds.filter((item) => item !== userId)
+    }));
+  };
+
+  const toggleNotifyOn = (trigger: NotificationTrigger, enabled: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      notifyOn: enabled ? [...prev.notifyOn, trigger] : prev.notifyOn.filter((item) => item !== trigger)
+    }));
+  };
+
+  const canRecur = isRecurringTimeRange(form.timeRangeMode);
+  const rolloverCarriesUnused = form.rolloverMode === 'unused' || form.rolloverMode === 'both';
+
   const handleSubmit = async () => {
+    const tagRates = parseRateInput(form.tagRates);
     const draft: AlertDraft = {
       name: form.name.trim(),
       description: form.description.trim(),
       type: form.type,
+      connectionId: form.connectionId || undefined,
       teamId: form.teamId,
-      folderId: form.folderId || undefined,
-      listId: form.listId || undefined,
+      spaceId: form.type === 'multi' ? undefined : form.spaceId || undefined,
+      folderId: scopeType === 'folder' || scopeType === 'list' ? form.folderId || undefined : undefined,
+      listId: scopeType === 'list' ? form.listId || undefined : undefined,
+      scopes: form.type === 'multi' ? form.scopes : undefined,
       customScopeType: form.type === 'custom' ? form.customScopeType : undefined,
       timeRangeMode: form.timeRangeMode,
       startDate: form.timeRangeMode === 'custom' ? form.startDate || undefined : undefined,
       endDate: form.timeRangeMode === 'custom' ? form.endDate || undefined : undefined,
+      timeZone: form.timeZone || undefined,
+      weekStartsOn: form.timeRangeMode === 'weekly' ? Number(form.weekStartsOn) : undefined,
+      rollingDays: form.timeRangeMode === 'rolling' ? Number(form.rollingDays) : undefined,
+      fiscalYearStartMonth:
+        form.timeRangeMode === 'fiscalQuarter' || form.timeRangeMode === 'fiscalYear'
+          ? Number(form.fiscalYearStartMonth)
+          : undefined,
+      recurringPeriod: canRecur && form.recurringPeriod ? true : undefined,
+      rolloverMode: canRecur && form.recurringPeriod ? form.rolloverMode : undefined,
+      rolloverCapHours:
+        canRecur && form.recurringPeriod && rolloverCarriesUnused && form.rolloverCapHours.trim()
+          ? Number(form.rolloverCapHours)
+          : undefined,
+      budgetSource: form.budgetSource === 'estimates' ? 'estimates' : undefined,
       budgetHours: Number(form.budgetHours),
+      budgetAmount: form.budgetAmount.trim() ? Number(form.budgetAmount) : undefined,
+      currency: form.currency.trim().toUpperCase() || undefined,
+      hourlyRate: form.hourlyRate.trim() ? Number(form.hourlyRate) : undefined,
+      userRates: Object.entries(form.userRates)
+        .filter(([, rate]) => rate.trim().length > 0)
+        .map(([key, rate]) => ({ key, hourlyRate: Number(rate) })),
+      tagRates: tagRates.rates,
       warningThresholdPct: Number(form.warningThresholdPct),
       criticalThresholdPct: Number(form.criticalThresholdPct),
-      excludedTaskIds: parseTaskIdInput(form.excludedTaskIds),
-      includeOnlyTaskIds: parseTaskIdInput(form.includeOnlyTaskIds),
+      excludedTaskIds: form.excludedTaskIds,
+      includeOnlyTaskIds: form.includeOnlyTaskIds,
+      taskNames: form.taskNames,
+      taskRules: form.taskRules.length ? form.taskRules : undefined,
+      userFilterMode: form.userFilterMode,
+      userIds: form.userFilterMode === 'all' ? [] : form.userIds,
+      perPersonCapHours: form.perPersonCapEnabled ? Number(form.perPersonCapHours) : undefined,
+      billableFilter: form.billableFilter,
+      excludeRunningTimers: form.excludeRunningTimers || undefined,
+      includedTaskTags: parseTagInput(form.includedTaskTags),
+      excludedTaskTags: parseTagInput(form.excludedTaskTags),
+      includedEntryTags: parseTagInput(form.includedEntryTags),
+      excludedEntryTags: parseTagInput(form.excludedEntryTags),
       refreshFrequencyMinutes: Number(form.refreshFrequencyMinutes),
+      notifyOn: form.notifyOn,
       active: form.active
     };
 
     const parsed = alertDraftSchema.safeParse(draft);
-    if (!parsed.success) {
+    if (!parsed.success || tagRates.invalidKeys.length > 0) {
       const nextErrors: Record<string, string> = {};
-      for (const issue of parsed.error.issues) {
+      if (tagRates.invalidKeys.length > 0) {
+        nextErrors.tagRates = `Enter a rate of 0 or more for: ${tagRates.invalidKeys.join(', ')}`;
+      }
+      for (const issue of parsed.success ? [] : parsed.error.issues) {
         const key = issue.path[0] ? String(issue.path[0]) : 'form';
         if (!nextErrors[key]) {
           nextErrors[key] = issue.message;
@@ -172,6 +462,7 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
 
     try {
       await onSubmit(parsed.data);
+      saveWorkspaceTimeZone();
       onClose();
     } catch (error) {
       setErrors({ form: error instanceof Error ? error.message : 'Failed to save alert.' });
@@ -205,9 +496,11 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
           <label className="block">
             <span className="mb-1 block text-sm font-medium text-stonewarm-900">Alert Type</span>
             <select className={inputClass} value={form.type} onChange={(event) => update('type', event.target.value as FormState['type'])}>
+              <option value="space">Space Budget Alert</option>
               <option value="folder">Folder Budget Alert</option>
               <option value="list">List Budget Alert</option>
               <option value="custom">Custom Scoped Alert</option>
+              <option value="multi">Multi-scope Alert (several folders and lists)</option>
             </select>
           </label>
 
@@ -221,10 +514,27 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
             />
           </label>
 
+          {connections.length > 1 ? (
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-stonewarm-900">ClickUp Connection</span>
+              <select
+                className={inputClass}
+                value={form.connectionId}
+                onChange={(event) => handleConnectionChange(event.target.value)}
+              >
+                {connections.map((connection) => (
+                  <option key={connection.id} value={connection.id}>
+                    {connection.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
           <label className="block">
             <span className="mb-1 block text-sm font-medium text-stonewarm-900">Workspace</span>
             <select className={inputClass} value={form.teamId} onChange={(event) => handleTeamChange(event.target.value)}>
-              {scopeTree.map((team) => (
+              {connectionTeams.map((team) => (
                 <option key={team.id} value={team.id}>
                   {team.name}
                 </option>
@@ -238,15 +548,79 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
               <select
                 className={inputClass}
                 value={form.customScopeType}
-                onChange={(event) => update('customScopeType', event.target.value as 'folder' | 'list')}
+                onChange={(event) => update('customScopeType', event.target.value as ScopeType)}
               >
+                <option value="space">Space</option>
                 <option value="folder">Folder</option>
                 <option value="list">List</option>
               </select>
             </label>
           ) : null}
 
-          {(form.type === 'folder' || (form.type === 'custom' && form.customScopeType === 'folder')) && (
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">
+              {form.type === 'multi' ? 'Browse Space' : 'Space'}
+            </span>
+            <select className={inputClass} value={form.spaceId} onChange={(event) => handleSpaceChange(event.target.value)}>
+              <option value="">Select space</option>
+              {spaces.map((space) => (
+                <option key={space.id} value={space.id}>
+                  {space.name}
+                </option>
+              ))}
+            </select>
+            {errors.spaceId ? <span className="mt-1 block text-xs text-clay-600">{errors.spaceId}</span> : null}
+          </label>
+
+          {form.type === 'multi' ? (
+            <fieldset className="block md:col-span-2">
+              <span className="mb-1 block text-sm font-medium text-stonewarm-900">
+                Folders and lists in {selectedSpace?.name ?? 'this space'}
+              </span>
+              <div className="grid max-h-48 gap-1 overflow-auto rounded-xl border border-stonewarm-200 bg-sand-50 p-2 md:grid-cols-2">
+                {folders.map((folder) => (
+                  <label key={`folder-${folder.id}`} className="flex items-center gap-2 text-sm text-stonewarm-900">
+                    <input
+                      type="checkbox"
+                      checked={isScopeSelected('folder', folder.id)}
+                      onChange={(event) =>
+                        toggleScope({ type: 'folder', id: folder.id, name: folder.name }, event.target.checked)
+                      }
+                    />
+                    Folder: {folder.name}
+                  </label>
+                ))}
+                {allLists.map((list) => (
+                  <label key={`list-${list.id}`} className="flex items-center gap-2 text-sm text-stonewarm-900">
+                    <input
+                      type="checkbox"
+                      checked={isScopeSelected('list', list.id)}
+                      onChange={(event) => toggleScope({ type: 'list', id: list.id, name: list.name }, event.target.checked)}
+                    />
+                    List: {list.folderId ? list.name : `${list.name} (no folder)`}
+                  </label>
+                ))}
+              </div>
+              {form.scopes.length > 0 ? (
+                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                  {form.scopes.map((scope) => (
+                    <button
+                      key={`${scope.type}-${scope.id}`}
+                      type="button"
+                      onClick={() => toggleScope(scope, false)}
+                      className="rounded-lg border border-stonewarm-300 px-2 py-1 text-stonewarm-900 hover:bg-sand-100"
+                      title="Remove"
+                    >
+                      {scope.type === 'folder' ? 'Folder' : 'List'}: {scope.name ?? scope.id} ×
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+              {errors.scopes ? <span className="mt-1 block text-xs text-clay-600">{errors.scopes}</span> : null}
+            </fieldset>
+          ) : null}
+
+          {scopeType === 'folder' && (
             <label className="block">
               <span className="mb-1 block text-sm font-medium text-stonewarm-900">Folder Scope</span>
               <select className={inputClass} value={form.folderId} onChange={(event) => handleFolderChange(event.target.value)}>
@@ -261,14 +635,14 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
             </label>
           )}
 
-          {(form.type === 'list' || (form.type === 'custom' && form.customScopeType === 'list')) && (
+          {scopeType === 'list' && (
             <label className="block">
               <span className="mb-1 block text-sm font-medium text-stonewarm-900">List Scope</span>
               <select className={inputClass} value={form.listId} onChange={(event) => update('listId', event.target.value)}>
                 <option value="">Select list</option>
-                {(form.type === 'list' ? allLists : currentFolderLists).map((list) => (
+                {allLists.map((list) => (
                   <option key={list.id} value={list.id}>
-                    {list.name}
+                    {list.folderId ? list.name : `${list.name} (no folder)`}
                   </option>
                 ))}
               </select>
@@ -283,25 +657,241 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
               value={form.timeRangeMode}
               onChange={(event) => update('timeRangeMode', event.target.value as FormState['timeRangeMode'])}
             >
-              <option value="monthly">Monthly (current month)</option>
-              <option value="custom">Custom date range</option>
-              <option value="none">No date limit (cumulative)</option>
+              {timeRangeModeOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {form.timeRangeMode !== 'none' ? (
+            <>
+              <label className="block">
+                <span className="mb-1 block text-sm font-medium text-stonewarm-900">Timezone</span>
+                <select
+                  className={inputClass}
+                  value={form.timeZone}
+                  onChange={(event) => update('timeZone', event.target.value)}
+                >
+                  <option value="">Workspace default ({workspaceTimeZone || getLocalTimeZone()})</option>
+                  {timeZoneOptions.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone}
+                    </option>
+                  ))}
+                </select>
+                {errors.timeZone ? <span className="mt-1 block text-xs text-clay-600">{errors.timeZone}</span> : null}
+              </label>
+
+              <label className="block">
+                <span className="mb-1 block text-sm font-medium text-stonewarm-900">Workspace Default Timezone</span>
+                <select
+                  className={inputClass}
+                  value={workspaceTimeZone}
+                  disabled={!form.teamId}
+                  onChange={(event) => setWorkspaceTimeZone(event.target.value)}
+                >
+                  <option value="">This computer ({getLocalTimeZone()})</option>
+                  {timeZoneOptions.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone}
+                    </option>
+                  ))}
+                </select>
+                <span className="mt-1 block text-xs text-stonewarm-700">Applies to every alert in this workspace without its own timezone.</span>
+              </label>
+            </>
+          ) : null}
+
+          {form.timeRangeMode === 'weekly' ? (
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-stonewarm-900">Week Starts On</span>
+              <select
+                className={inputClass}
+                value={form.weekStartsOn}
+                onChange={(event) => update('weekStartsOn', event.target.value)}
+              >
+                {weekdayNames.map((day, index) => (
+                  <option key={day} value={index}>
+                    {day}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          {form.timeRangeMode === 'rolling' ? (
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-stonewarm-900">Rolling Window (days)</span>
+              <input
+                type="number"
+                min={1}
+                step="1"
+                className={inputClass}
+                value={form.rollingDays}
+                onChange={(event) => update('rollingDays', event.target.value)}
+              />
+              {errors.rollingDays ? <span className="mt-1 block text-xs text-clay-600">{errors.rollingDays}</span> : null}
+            </label>
+          ) : null}
+
+          {form.timeRangeMode === 'fiscalQuarter' || form.timeRangeMode === 'fiscalYear' ? (
+            <label className="block">
+              <span className="mb-1 block text-sm font-medium text-stonewarm-900">Fiscal Year Starts In</span>
+              <select
+                className={inputClass}
+                value={form.fiscalYearStartMonth}
+                onChange={(event) => update('fiscalYearStartMonth', event.target.value)}
+              >
+                {monthNames.map((month, index) => (
+                  <option key={month} value={index + 1}>
+                    {month}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          {canRecur ? (
+            <div className="block md:col-span-2">
+              <label className="flex items-center gap-2 text-sm font-medium text-stonewarm-900">
+                <input
+                  type="checkbox"
+                  checked={form.recurringPeriod}
+                  onChange={(event) => update('recurringPeriod', event.target.checked)}
+                />
+                Recurring period (keep a ledger of each closed period)
+              </label>
+              {form.recurringPeriod ? (
+                <div className="mt-2 grid gap-3 md:grid-cols-2">
+                  <select
+                    className={inputClass}
+                    value={form.rolloverMode}
+                    onChange={(event) => update('rolloverMode', event.target.value as RolloverMode)}
+                  >
+                    {rolloverModeOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0.25}
+                    step="0.25"
+                    disabled={!rolloverCarriesUnused}
+                    className={`${inputClass} disabled:opacity-50`}
+                    value={form.rolloverCapHours}
+                    onChange={(event) => update('rolloverCapHours', event.target.value)}
+                    placeholder="Max unused hours carried (blank = no cap)"
+                  />
+                </div>
+              ) : null}
+              {errors.rolloverCapHours ? <span className="mt-1 block text-xs text-clay-600">{errors.rolloverCapHours}</span> : null}
+              {errors.timeRangeMode ? <span className="mt-1 block text-xs text-clay-600">{errors.timeRangeMode}</span> : null}
+            </div>
+          ) : null}
+
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Budget Source</span>
+            <select
+              className={inputClass}
+              value={form.budgetSource}
+              onChange={(event) => update('budgetSource', event.target.value as BudgetSource)}
+            >
+              <option value="manual">Manual budget hours</option>
+              <option value="estimates">Sum of task time estimates in scope</option>
             </select>
           </label>
 
           <label className="block">
-            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Budget Hours</span>
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">
+              {form.budgetSource === 'estimates' ? 'Budget Hours (from task estimates)' : 'Budget Hours'}
+            </span>
             <input
               type="number"
               min={0.01}
               step="0.25"
-              className={inputClass}
+              disabled={form.budgetSource === 'estimates'}
+              className={`${inputClass} disabled:opacity-50`}
               value={form.budgetHours}
               onChange={(event) => update('budgetHours', event.target.value)}
             />
             {errors.budgetHours ? <span className="mt-1 block text-xs text-clay-600">{errors.budgetHours}</span> : null}
           </label>
 
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Budget Amount (optional)</span>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                step="100"
+                className={inputClass}
+                value={form.budgetAmount}
+                onChange={(event) => update('budgetAmount', event.target.value)}
+                placeholder="Leave blank for hours only"
+              />
+              <input
+                className={`${inputClass} w-24`}
+                value={form.currency}
+                maxLength={3}
+                onChange={(event) => update('currency', event.target.value.toUpperCase())}
+                placeholder="USD"
+              />
+            </div>
+            {errors.budgetAmount ? <span className="mt-1 block text-xs text-clay-600">{errors.budgetAmount}</span> : null}
+            {errors.currency ? <span className="mt-1 block text-xs text-clay-600">{errors.currency}</span> : null}
+          </label>
+
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Default Hourly Rate</span>
+            <input
+              type="number"
+              min={0}
+              step="1"
+              className={inputClass}
+              value={form.hourlyRate}
+              onChange={(event) => update('hourlyRate', event.target.value)}
+              placeholder="Used when no user or tag rate applies"
+            />
+            {errors.hourlyRate ? <span className="mt-1 block text-xs text-clay-600">{errors.hourlyRate}</span> : null}
+          </label>
+
+          <label className="block md:col-span-2">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Task Tag Rates (tag=rate, comma separated)</span>
+            <input
+              className={inputClass}
+              value={form.tagRates}
+              onChange={(event) => update('tagRates', event.target.value)}
+              placeholder="design=120, development=100"
+            />
+            {errors.tagRates ? <span className="mt-1 block text-xs text-clay-600">{errors.tagRates}</span> : null}
+          </label>
+
+          {teamMembers?.length ? (
+            <details className="block md:col-span-2">
+              <summary className="cursor-pointer text-sm font-medium text-stonewarm-900">Per-user hourly rates</summary>
+              <div className="mt-2 grid max-h-48 gap-2 overflow-auto rounded-xl border border-stonewarm-200 bg-sand-50 p-2 md:grid-cols-2">
+                {teamMembers.map((member) => (
+                  <label key={member.id} className="flex items-center justify-between gap-2 text-sm text-stonewarm-900">
+                    <span className="truncate">{memberLabel(member)}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="1"
+                      className="w-24 rounded-lg border border-stonewarm-200 bg-white px-2 py-1 text-sm"
+                      value={form.userRates[member.id] ?? ''}
+                      onChange={(event) => updateUserRate(member.id, event.target.value)}
+                    />
+                  </label>
+                ))}
+              </div>
+              {errors.userRates ? <span className="mt-1 block text-xs text-clay-600">{errors.userRates}</span> : null}
+            </details>
+          ) : null}
+
           {form.timeRangeMode === 'custom' ? (
             <>
               <label className="block">
@@ -342,28 +932,153 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
             />
           </label>
 
-          <label className="block md:col-span-2">
-            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Excluded Task IDs (comma separated)</span>
+          <TaskPicker
+            connectionId={form.connectionId || undefined}
+            label="Excluded Tasks"
+            listIds={scopeListIds}
+            selectedIds={form.excludedTaskIds}
+            taskNames={form.taskNames}
+            emptyLabel="No tasks excluded."
+            error={errors.excludedTaskIds}
+            onChange={(excludedTaskIds, taskNames) => setForm((prev) => ({ ...prev, excludedTaskIds, taskNames }))}
+          />
+
+          <TaskPicker
+            connectionId={form.connectionId || undefined}
+            label="Include-Only Tasks (optional)"
+            listIds={scopeListIds}
+            selectedIds={form.includeOnlyTaskIds}
+            taskNames={form.taskNames}
+            emptyLabel="All tasks in scope are included."
+            error={errors.includeOnlyTaskIds}
+            onChange={(includeOnlyTaskIds, taskNames) => setForm((prev) => ({ ...prev, includeOnlyTaskIds, taskNames }))}
+          />
+
+          <TaskRulesEditor
+            connectionId={form.connectionId || undefined}
+            listIds={scopeListIds}
+            rules={form.taskRules}
+            error={errors.taskRules}
+            onChange={(taskRules) => setForm((prev) => ({ ...prev, taskRules }))}
+          />
+
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Billable Entries</span>
+            <select
+              className={inputClass}
+              value={form.billableFilter}
+              onChange={(event) => update('billableFilter', event.target.value as BillableFilter)}
+            >
+              <option value="all">Billable and non-billable</option>
+              <option value="billable">Billable only</option>
+              <option value="nonBillable">Non-billable only</option>
+            </select>
+            <label className="mt-2 flex items-center gap-2 text-sm text-stonewarm-900">
+              <input
+                type="checkbox"
+                checked={form.excludeRunningTimers}
+                onChange={(event) => update('excludeRunningTimers', event.target.checked)}
+              />
+              Exclude running timers
+            </label>
+          </label>
+
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Task Tags (include any)</span>
             <input
               className={inputClass}
-              value={form.excludedTaskIds}
-              onChange={(event) => update('excludedTaskIds', event.target.value)}
-              placeholder="abc123, xyz789"
+              value={form.includedTaskTags}
+              onChange={(event) => update('includedTaskTags', event.target.value)}
+              placeholder="Leave blank to include all tags"
             />
-            {errors.excludedTaskIds ? <span className="mt-1 block text-xs text-clay-600">{errors.excludedTaskIds}</span> : null}
           </label>
 
-          <label className="block md:col-span-2">
-            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Include-Only Task IDs (optional)</span>
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Task Tags (exclude)</span>
+            <input
+              className={inputClass}
+              value={form.excludedTaskTags}
+              onChange={(event) => update('excludedTaskTags', event.target.value)}
+              placeholder="internal, admin"
+            />
+          </label>
+
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Time Entry Tags (include any)</span>
+            <input
+              className={inputClass}
+              value={form.includedEntryTags}
+              onChange={(event) => update('includedEntryTags', event.target.value)}
+              placeholder="Leave blank to include all tags"
+            />
+          </label>
+
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Time Entry Tags (exclude)</span>
             <input
               className={inputClass}
-              value={form.includeOnlyTaskIds}
-              onChange={(event) => update('includeOnlyTaskIds', event.target.value)}
-              placeholder="Leave blank to include all tasks"
+              value={form.excludedEntryTags}
+              onChange={(event) => update('excludedEntryTags', event.target.value)}
+              placeholder="non-chargeable"
             />
-            {errors.includeOnlyTaskIds ? <span className="mt-1 block text-xs text-clay-600">{errors.includeOnlyTaskIds}</span> : null}
           </label>
 
+          <label className="block">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">People</span>
+            <select
+              className={inputClass}
+              value={form.userFilterMode}
+              onChange={(event) => update('userFilterMode', event.target.value as UserFilterMode)}
+            >
+              <option value="all">Count everyone</option>
+              <option value="include">Only selected people</option>
+              <option value="exclude">Everyone except selected people</option>
+            </select>
+          </label>
+
+          <div className="block">
+            <label className="flex items-center gap-2 text-sm font-medium text-stonewarm-900">
+              <input
+                type="checkbox"
+                checked={form.perPersonCapEnabled}
+                onChange={(event) => update('perPersonCapEnabled', event.target.checked)}
+              />
+              Per person cap (hours)
+            </label>
+            <input
+              type="number"
+              min={0.25}
+              step="0.25"
+              disabled={!form.perPersonCapEnabled}
+              className={`${inputClass} mt-1 disabled:opacity-50`}
+              value={form.perPersonCapHours}
+              onChange={(event) => update('perPersonCapHours', event.target.value)}
+            />
+            {errors.perPersonCapHours ? <span className="mt-1 block text-xs text-clay-600">{errors.perPersonCapHours}</span> : null}
+          </div>
+
+          {form.userFilterMode !== 'all' ? (
+            <fieldset className="block md:col-span-2">
+              <span className="mb-1 block text-sm font-medium text-stonewarm-900">
+                {form.userFilterMode === 'include' ? 'Count only these people' : 'Exclude these people'}
+              </span>
+              <div className="grid max-h-40 gap-1 overflow-auto rounded-xl border border-stonewarm-200 bg-sand-50 p-2 md:grid-cols-2">
+                {(teamMembers ?? []).map((member) => (
+                  <label key={member.id} className="flex items-center gap-2 text-sm text-stonewarm-900">
+                    <input
+                      type="checkbox"
+                      checked={form.userIds.includes(member.id)}
+                      onChange={(event) => toggleUserId(member.id, event.target.checked)}
+                    />
+                    {memberLabel(member)}
+                  </label>
+                ))}
+                {!teamMembers ? <span className="text-xs text-stonewarm-700">Loading members...</span> : null}
+              </div>
+              {errors.userIds ? <span className="mt-1 block text-xs text-clay-600">{errors.userIds}</span> : null}
+            </fieldset>
+          ) : null}
+
           <label className="block">
             <span className="mb-1 block text-sm font-medium text-stonewarm-900">Refresh Frequency</span>
             <select
@@ -371,7 +1086,7 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
               value={form.refreshFrequencyMinutes}
               onChange={(event) => update('refreshFrequencyMinutes', event.target.value)}
             >
-              <option value="0">Manual only</option>
+              <option value="0">Hourly (default schedule)</option>
               <option value="5">Every 5 minutes</option>
               <option value="15">Every 15 minutes</option>
               <option value="30">Every 30 minutes</option>
@@ -379,6 +1094,22 @@ export function AlertFormModal({ open, scopeTree, initialAlert, onClose, onSubmi
             </select>
           </label>
 
+          <fieldset className="block md:col-span-2">
+            <span className="mb-1 block text-sm font-medium text-stonewarm-900">Desktop Notifications</span>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {notificationTriggerOptions.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-stonewarm-900">
+                  <input
+                    type="checkbox"
+                    checked={form.notifyOn.includes(option.value)}
+                    onChange={(event) => toggleNotifyOn(option.value, event.target.checked)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
           <label className="flex items-center gap-2 pt-6 text-sm text-stonewarm-900">
             <input type="checkbox" checked={form.active} onChange={(event) => update('active', event.target.checked)} />
             Alert active
@@ -1,23 +1,54 @@
-import { FormEvent, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { FormEvent, useState } from 'react';
 
 import { useBudgetMonitorStore } from '../hooks/useBudgetMonitorStore';
+import type { ClickUpConnection, ConnectionTestStatus } from '../shared/types';
+import { formatDate } from '../utils';
 
-export function AuthPanel() {
+interface AuthPanelProps {
+  embedded?: boolean;
+}
+
+const statusLabel: Record<ConnectionTestStatus, string> = { untested: 'Untested', ok: 'Connected', failed: 'Failed' };
+
+const statusClass: Record<ConnectionTestStatus, string> = {
+  untested: 'bg-sand-100 text-stonewarm-700',
+  ok: 'bg-moss/10 text-moss',
+  failed: 'bg-clay-500/10 text-clay-600'
+};
+
+export function AuthPanel({ embedded = false }: AuthPanelProps) {
+  const [editingId, setEditingId] = useState<string>();
+  const [name, setName] = useState('');
   const [token, setToken] = useState('');
   const [testing, setTesting] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string>();
   const [testMessage, setTestMessage] = useState<string>();
   const [lastTestOk, setLastTestOk] = useState(false);
   const [testedTeams, setTestedTeams] = useState<Array<{ id: string; name: string }>>([]);
 
+  const connections = useBudgetMonitorStore((state) => state.auth.connections);
   const testConnection = useBudgetMonitorStore((state) => state.testConnection);
-  const configureToken = useBudgetMonitorStore((state) => state.configureToken);
-  const authTeams = useBudgetMonitorStore((state) => state.auth.teams);
+  const saveConnection = useBudgetMonitorStore((state) => state.saveConnection);
+  const deleteConnection = useBudgetMonitorStore((state) => state.deleteConnection);
 
-  const teamSummary = useMemo(() => {
-    if (!authTeams.length) return 'No workspace loaded yet.';
-    return `${authTeams.length} workspace${authTeams.length === 1 ? '' : 's'} accessible.`;
-  }, [authTeams]);
+  const editing = connections.find((item) => item.id === editingId);
+
+  const resetForm = () => {
+    setEditingId(undefined);
+    setName('');
+    setToken('');
+    setTestMessage(undefined);
+    setLastTestOk(false);
+    setTestedTeams([]);
+  };
+
+  const startEditing = (connection: ClickUpConnection) => {
+    resetForm();
+    setEditingId(connection.id);
+    setName(connection.name);
+  };
 
   const handleTest = async (event?: FormEvent) => {
     event?.preventDefault();
@@ -30,17 +61,23 @@ export function AuthPanel() {
     setTestMessage(undefined);
 
     try {
-      const result = await testConnection(token.trim());
+      const result = await testConnection({ token: token.trim() });
       setLastTestOk(result.ok);
       setTestedTeams(result.teams);
-      setTestMessage(result.ok ? result.message ?? 'Connection successful.' : result.message ?? 'Connection failed.');
+      setTestMessage(
+        result.ok ? (result.message ?? 'Connection successful.') : (result.message ?? 'Connection failed.')
+      );
     } finally {
       setTesting(false);
     }
   };
 
   const handleSave = async () => {
-    if (!token.trim()) {
+    if (!name.trim()) {
+      setTestMessage('Connection name is required.');
+      return;
+    }
+    if (!editing && !token.trim()) {
       setTestMessage('Token is required.');
       return;
     }
@@ -49,30 +86,109 @@ export function AuthPanel() {
     setTestMessage(undefined);
 
     try {
-      const result = await configureToken(token.trim());
-      setLastTestOk(result.ok);
-      setTestedTeams(result.teams);
-      setTestMessage(result.ok ? 'Token saved and workspace loaded.' : result.message ?? 'Unable to save token.');
+      const saved = await saveConnection({ id: editingId, name: name.trim(), token: token.trim() || undefined });
+      if (saved) resetForm();
     } finally {
       setSaving(false);
     }
   };
 
-  return (
-    <div className="mx-auto mt-16 w-full max-w-xl rounded-2xl border border-stonewarm-200 bg-white p-8 shadow-soft">
-      <h1 className="text-2xl font-semibold text-stonewarm-900">ClickUp Budget Alert Monitor</h1>
-      <p className="mt-2 text-sm text-stonewarm-700">
-        Add your ClickUp API token to start calculating budget alerts across folders and lists.
-      </p>
+  const handleTestStored = async (connection: ClickUpConnection) => {
+    setBusyId(connection.id);
+    try {
+      await testConnection({ id: connection.id });
+    } finally {
+      setBusyId(undefined);
+    }
+  };
+
+  const handleDelete = async (connection: ClickUpConnection) => {
+    if (!window.confirm(`Delete the connection "${connection.name}" and its stored token?`)) return;
+
+    setBusyId(connection.id);
+    try {
+      const deleted = await deleteConnection(connection.id);
+      if (deleted && editingId === connection.id) resetForm();
+    } finally {
+      setBusyId(undefined);
+    }
+  };
+
+  const content = (
+    <>
+      {connections.length > 0 ? (
+        <ul className="mt-4 divide-y divide-stonewarm-200 rounded-xl border border-stonewarm-200 px-4">
+          {connections.map((connection) => (
+            <li key={connection.id} className="flex flex-wrap items-start justify-between gap-3 py-3 text-sm">
+              <div className="min-w-0">
+                <p className="flex items-center gap-2 font-medium text-stonewarm-900">
+                  {connection.name}
+                  <span
+                    className={clsx(
+                      'rounded-full px-2 py-0.5 text-[11px] font-medium',
+                      statusClass[connection.testStatus]
+                    )}
+                  >
+                    {statusLabel[connection.testStatus]}
+                  </span>
+                </p>
+                <p className="mt-0.5 text-xs text-stonewarm-700">
+                  {connection.teams.length > 0
+                    ? connection.teams.map((team) => team.name).join(', ')
+                    : 'No workspace loaded yet.'}
+                  {connection.testedAt ? ` · tested ${formatDate(connection.testedAt)}` : ''}
+                </p>
+                {connection.testStatus === 'failed' && connection.testMessage ? (
+                  <p className="mt-0.5 text-xs text-clay-600">{connection.testMessage}</p>
+                ) : null}
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <button
+                  onClick={() => void handleTestStored(connection)}
+                  disabled={busyId === connection.id}
+                  className="rounded-lg border border-stonewarm-300 px-3 py-1.5 text-xs font-medium text-stonewarm-900 transition hover:bg-sand-100 disabled:opacity-60"
+                >
+                  {busyId === connection.id ? 'Working...' : 'Test'}
+                </button>
+                <button
+                  onClick={() => startEditing(connection)}
+                  className="rounded-lg border border-stonewarm-300 px-3 py-1.5 text-xs font-medium text-stonewarm-900 transition hover:bg-sand-100"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => void handleDelete(connection)}
+                  disabled={busyId === connection.id}
+                  className="rounded-lg border border-clay-500 px-3 py-1.5 text-xs font-medium text-clay-600 transition hover:bg-clay-500/10 disabled:opacity-60"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : null}
 
       <form onSubmit={handleTest} className="mt-6 space-y-4">
+        <p className="text-sm font-semibold text-stonewarm-900">
+          {editing ? `Edit "${editing.name}"` : connections.length > 0 ? 'Add another connection' : 'Add a connection'}
+        </p>
+        <label className="block">
+          <span className="mb-1 block text-sm font-medium text-stonewarm-900">Connection Name</span>
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Agency workspace"
+            className="w-full rounded-xl border border-stonewarm-200 bg-sand-50 px-3 py-2 text-sm text-stonewarm-900 outline-none ring-clay-500 transition focus:ring-2"
+          />
+        </label>
         <label className="block">
           <span className="mb-1 block text-sm font-medium text-stonewarm-900">ClickUp API Token</span>
           <input
             type="password"
             value={token}
             onChange={(event) => setToken(event.target.value)}
-            placeholder="pk_..."
+            placeholder={editing ? 'Leave blank to keep the current token' : 'pk_...'}
             className="w-full rounded-xl border border-stonewarm-200 bg-sand-50 px-3 py-2 text-sm text-stonewarm-900 outline-none ring-clay-500 transition focus:ring-2"
             autoComplete="off"
           />
@@ -84,29 +200,62 @@ export function AuthPanel() {
             disabled={testing || saving}
             className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100 disabled:cursor-not-allowed disabled:opacity-60"
           >
-            {testing ? 'Testing...' : 'Test Connection'}
+            {testing ? 'Testing...' : 'Test Token'}
           </button>
           <button
             type="button"
-            onClick={handleSave}
+            onClick={() => void handleSave()}
             disabled={saving || testing}
             className="rounded-xl bg-olive-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-olive-600 disabled:cursor-not-allowed disabled:opacity-60"
           >
-            {saving ? 'Saving...' : 'Save Token'}
+            {saving ? 'Saving...' : 'Save Connection'}
           </button>
+          {editing ? (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100"
+            >
+              Cancel
+            </button>
+          ) : null}
           {lastTestOk ? <span className="self-center text-xs text-moss">Connection verified</span> : null}
         </div>
       </form>
 
-      <div className="mt-4 rounded-xl bg-sand-100 p-3 text-xs text-stonewarm-700">
-        <p>{testMessage ?? 'No connection test run yet.'}</p>
-        <p className="mt-1">{teamSummary}</p>
-        {(testedTeams.length > 0 || authTeams.length > 0) ? (
-          <p className="mt-1 text-[11px] text-stonewarm-700">
-            Teams: {(testedTeams.length > 0 ? testedTeams : authTeams).map((team) => team.name).join(', ')}
-          </p>
-        ) : null}
-      </div>
+      {testMessage ? (
+        <div className="mt-4 rounded-xl bg-sand-100 p-3 text-xs text-stonewarm-700">
+          <p>{testMessage}</p>
+          {testedTeams.length > 0 ? (
+            <p className="mt-1 text-[11px] text-stonewarm-700">
+              Teams: {testedTeams.map((team) => team.name).join(', ')}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+    </>
+  );
+
+  if (embedded) {
+    return (
+      <section>
+        <h3 className="text-base font-semibold text-stonewarm-900">ClickUp Connections</h3>
+        <p className="mt-1 text-sm text-stonewarm-700">
+          Each connection keeps its own encrypted token. Alerts refresh through the connection they are bound to.
+        </p>
+        {content}
+      </section>
+    );
+  }
+
+  return (
+    <div className="mx-auto mt-16 w-full max-w-xl rounded-2xl border border-stonewarm-200 bg-white p-8 shadow-soft">
+      <h1 className="text-2xl font-semibold text-stonewarm-900">ClickUp Budget Alert Monitor</h1>
+      <p className="mt-2 text-sm text-stonewarm-700">
+        Add a ClickUp API token to start calculating budget alerts across folders and lists. More accounts can be
+        connected later from Settings.
+      </p>
+      {content}
     </div>
   );
 }
@@ -0,0 +1,185 @@
+import clsx from 'clsx';
+import { useEffect, useState } from 'react';
+
+import type { AlertConfig, AlertEntryBreakdown, EntryBreakdownGroup } from '../shared/types';
+import { hours } from '../utils';
+
+interface EntryBreakdownPanelProps {
+  alert?: AlertConfig;
+  onClose: () => void;
+  onExcludeTask: (taskId: string, taskName: string) => Promise<void>;
+}
+
+type BreakdownTab = 'task' | 'user' | 'day' | 'entries';
+
+const tabs: Array<{ label: string; value: BreakdownTab }> = [
+  { label: 'By task', value: 'task' },
+  { label: 'By user', value: 'user' },
+  { label: 'By day', value: 'day' },
+  { label: 'All entries', value: 'entries' }
+];
+
+export function EntryBreakdownPanel({ alert, onClose, onExcludeTask }: EntryBreakdownPanelProps) {
+  const [breakdown, setBreakdown] = useState<AlertEntryBreakdown>();
+  const [loading, setLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string>();
+  const [tab, setTab] = useState<BreakdownTab>('task');
+  const [excludingTaskId, setExcludingTaskId] = useState<string>();
+
+  const alertId = alert?.id;
+
+  useEffect(() => {
+    if (!alertId) return;
+
+    let cancelled = false;
+    setBreakdown(undefined);
+    setErrorMessage(undefined);
+    setTab('task');
+    setLoading(true);
+
+    window.clickupMonitor
+      .getAlertEntries(alertId)
+      .then((result) => {
+        if (!cancelled) setBreakdown(result);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setErrorMessage(error instanceof Error ? error.message : 'Failed to load time entries.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [alertId]);
+
+  if (!alert) return null;
+
+  const excludedTaskIds = new Set(alert.excludedTaskIds);
+
+  const handleExclude = async (taskId: string, taskName: string) => {
+    setExcludingTaskId(taskId);
+    try {
+      await onExcludeTask(taskId, taskName);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to exclude task.');
+    } finally {
+      setExcludingTaskId(undefined);
+    }
+  };
+
+  const renderGroups = (groups: EntryBreakdownGroup[], canExclude: boolean) => (
+    <ul className="divide-y divide-stonewarm-200">
+      {groups.map((group) => {
+        const isTask = canExclude && group.key !== 'no-task';
+        const isExcluded = isTask && excludedTaskIds.has(group.key);
+        const share = breakdown && breakdown.totalHours > 0 ? (group.hours / breakdown.totalHours) * 100 : 0;
+
+        return (
+          <li key={group.key} className="flex items-center justify-between gap-3 py-2 text-sm">
+            <div className="min-w-0">
+              <p className="truncate font-medium text-stonewarm-900">{group.label}</p>
+              <p className="text-xs text-stonewarm-700">
+                {group.entryCount} entr{group.entryCount === 1 ? 'y' : 'ies'} · {share.toFixed(1)}%
+                {isTask ? ` · ${group.key}` : ''}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <span className="font-semibold text-stonewarm-900">{hours(group.hours)}</span>
+              {isTask ? (
+                <button
+                  onClick={() => void handleExclude(group.key, group.label)}
+                  disabled={isExcluded || excludingTaskId === group.key}
+                  className="rounded-lg border border-clay-500 px-2 py-1 text-xs text-clay-600 hover:bg-clay-500/10 disabled:opacity-50"
+                >
+                  {isExcluded ? 'Excluded' : excludingTaskId === group.key ? 'Excluding...' : 'Exclude'}
+                </button>
+              ) : null}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-auto bg-stonewarm-900/45 p-8">
+      <div className="w-full max-w-3xl rounded-2xl border border-stonewarm-200 bg-white p-6 shadow-soft">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-semibold text-stonewarm-900">{alert.name}: time entries</h2>
+            <p className="mt-1 text-sm text-stonewarm-700">
+              {breakdown
+                ? `${hours(breakdown.totalHours)} across ${breakdown.entries.length} entries after filters`
+                : 'Entries counted toward this budget, after exclusions and filters.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="rounded-lg border border-stonewarm-300 px-3 py-1.5 text-sm text-stonewarm-900">
+            Close
+          </button>
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2 text-xs">
+          {tabs.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => setTab(item.value)}
+              className={clsx(
+                'rounded-lg border px-3 py-1.5',
+                tab === item.value
+                  ? 'border-olive-500 bg-olive-500 text-white'
+                  : 'border-stonewarm-300 text-stonewarm-900 hover:bg-sand-100'
+              )}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        {errorMessage ? <p className="mt-3 text-sm text-clay-600">{errorMessage}</p> : null}
+        {loading ? <p className="mt-4 text-sm text-stonewarm-700">Loading time entries...</p> : null}
+
+        {breakdown && breakdown.entries.length === 0 ? (
+          <p className="mt-4 text-sm text-stonewarm-700">No time entries match this alert.</p>
+        ) : null}
+
+        {breakdown && breakdown.entries.length > 0 ? (
+          <div className="mt-4 max-h-[60vh] overflow-auto rounded-xl border border-stonewarm-200 px-4">
+            {tab === 'task' ? renderGroups(breakdown.byTask, true) : null}
+            {tab === 'user' ? renderGroups(breakdown.byUser, false) : null}
+            {tab === 'day' ? renderGroups(breakdown.byDay, false) : null}
+            {tab === 'entries' ? (
+              <table className="w-full text-left text-xs text-stonewarm-900">
+                <thead className="text-stonewarm-700">
+                  <tr>
+                    <th className="py-2 pr-2 font-medium">Date</th>
+                    <th className="py-2 pr-2 font-medium">Task</th>
+                    <th className="py-2 pr-2 font-medium">User</th>
+                    <th className="py-2 text-right font-medium">Hours</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-stonewarm-200">
+                  {breakdown.entries.map((entry) => (
+                    <tr key={entry.id}>
+                      <td className="py-2 pr-2">{entry.startMs ? new Date(entry.startMs).toLocaleString() : 'n/a'}</td>
+                      <td className="py-2 pr-2">
+                        {entry.taskName ?? entry.taskId ?? 'No task'}
+                        {entry.description ? <span className="block text-stonewarm-700">{entry.description}</span> : null}
+                      </td>
+                      <td className="py-2 pr-2">{entry.userName ?? entry.userId ?? 'Unknown user'}</td>
+                      <td className="py-2 text-right font-semibold">
+                        {hours(entry.hours)}
+                        {entry.isRunning ? <span className="block font-normal text-olive-600">running</span> : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+
+import type { AlertExportOptions, AlertTransferFormat } from '../shared/types';
+
+interface ExportAlertsModalProps {
+  open: boolean;
+  alertCount: number;
+  onClose: () => void;
+  onExport: (options: AlertExportOptions) => Promise<void>;
+}
+
+const formatOptions: Array<{ label: string; value: AlertTransferFormat }> = [
+  { label: 'JSON', value: 'json' },
+  { label: 'YAML', value: 'yaml' }
+];
+
+export function ExportAlertsModal({ open, alertCount, onClose, onExport }: ExportAlertsModalProps) {
+  const [format, setFormat] = useState<AlertTransferFormat>('json');
+  const [includeSnapshots, setIncludeSnapshots] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  if (!open) return null;
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await onExport({ format, includeSnapshots });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-stonewarm-900/45 p-8">
+      <div className="w-full max-w-md rounded-2xl border border-stonewarm-200 bg-white p-6 shadow-soft">
+        <h2 className="text-xl font-semibold text-stonewarm-900">Export alert definitions</h2>
+        <p className="mt-1 text-sm text-stonewarm-700">
+          Saves {alertCount} alert{alertCount === 1 ? '' : 's'} to a file that can be imported on another machine.
+          ClickUp tokens are never included.
+        </p>
+
+        <div className="mt-4 flex gap-2 text-sm">
+          {formatOptions.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center gap-2 rounded-xl border border-stonewarm-200 px-3 py-2 text-stonewarm-900"
+            >
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        <label className="mt-3 flex items-center gap-2 text-sm text-stonewarm-900">
+          <input type="checkbox" checked={includeSnapshots} onChange={(event) => setIncludeSnapshots(event.target.checked)} />
+          Include snapshots, period ledger and history
+        </label>
+
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => void handleExport()}
+            disabled={exporting || alertCount === 0}
+            className="rounded-xl bg-olive-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-olive-600 disabled:opacity-60"
+          >
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
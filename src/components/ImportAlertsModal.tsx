@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import type {
+  AlertImportAction,
+  AlertImportConflictReason,
+  AlertImportItem,
+  AlertImportPreview,
+  AlertImportSelection
+} from '../shared/types';
+import { formatDate } from '../utils';
+
+interface ImportAlertsModalProps {
+  preview?: AlertImportPreview;
+  onClose: () => void;
+  onImport: (selections: AlertImportSelection[]) => Promise<void>;
+}
+
+type ConflictAction = Extract<AlertImportAction, 'merge' | 'replace' | 'skip'>;
+
+const conflictActionOptions: Array<{ label: string; value: ConflictAction }> = [
+  { label: 'Merge into existing', value: 'merge' },
+  { label: 'Replace existing', value: 'replace' },
+  { label: 'Skip', value: 'skip' }
+];
+
+const newAlertActionOptions: Array<{ label: string; value: AlertImportAction }> = [
+  { label: 'Create', value: 'create' },
+  { label: 'Skip', value: 'skip' }
+];
+
+const conflictReasonLabel: Record<AlertImportConflictReason, string> = {
+  name: 'same name',
+  scope: 'same scope'
+};
+
+const defaultAction = (item: AlertImportItem): AlertImportAction => {
+  if (!item.draft || item.conflict) return 'skip';
+  return 'create';
+};
+
+export function ImportAlertsModal({ preview, onClose, onImport }: ImportAlertsModalProps) {
+  const [actions, setActions] = useState<Record<number, AlertImportAction>>({});
+  const [includeSnapshots, setIncludeSnapshots] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!preview) return;
+    setActions(Object.fromEntries(preview.items.map((item) => [item.index, defaultAction(item)])));
+    setIncludeSnapshots(true);
+  }, [preview]);
+
+  const counts = useMemo(() => {
+    const items = preview?.items ?? [];
+    return {
+      invalid: items.filter((item) => !item.draft).length,
+      conflicts: items.filter((item) => item.draft && item.conflict).length,
+      selected: items.filter((item) => item.draft && (actions[item.index] ?? 'skip') !== 'skip').length,
+      withSnapshots: items.filter((item) => item.snapshots).length
+    };
+  }, [preview, actions]);
+
+  if (!preview) return null;
+
+  const fileName = preview.filePath.split(/[\\/]/).pop() ?? preview.filePath;
+
+  const setConflictActions = (action: ConflictAction) => {
+    setActions((current) => ({
+      ...current,
+      ...Object.fromEntries(preview.items.filter((item) => item.draft && item.conflict).map((item) => [item.index, action]))
+    }));
+  };
+
+  const handleImport = async () => {
+    const selections: AlertImportSelection[] = [];
+    for (const item of preview.items) {
+      if (!item.draft) continue;
+      selections.push({
+        draft: item.draft,
+        snapshots: includeSnapshots ? item.snapshots : undefined,
+        action: actions[item.index] ?? 'skip',
+        targetAlertId: item.conflict?.alertId
+      });
+    }
+
+    setImporting(true);
+    try {
+      await onImport(selections);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-auto bg-stonewarm-900/45 p-8">
+      <div className="w-full max-w-3xl rounded-2xl border border-stonewarm-200 bg-white p-6 shadow-soft">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-semibold text-stonewarm-900">Import alerts from {fileName}</h2>
+            <p className="mt-1 text-sm text-stonewarm-700">
+              {preview.items.length} alert{preview.items.length === 1 ? '' : 's'} in {preview.format.toUpperCase()}
+              {preview.exportedAt ? `, exported ${formatDate(preview.exportedAt)}` : ''}
+              {counts.conflicts > 0 ? ` · ${counts.conflicts} conflict${counts.conflicts === 1 ? '' : 's'}` : ''}
+              {counts.invalid > 0 ? ` · ${counts.invalid} invalid` : ''}
+            </p>
+          </div>
+          <button onClick={onClose} className="rounded-lg border border-stonewarm-300 px-3 py-1.5 text-sm text-stonewarm-900">
+            Close
+          </button>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-stonewarm-900">
+          {counts.conflicts > 0 ? (
+            <label className="flex items-center gap-2">
+              All conflicts:
+              <select
+                defaultValue=""
+                onChange={(event) => {
+                  if (event.target.value) setConflictActions(event.target.value as ConflictAction);
+                }}
+                className="rounded-xl border border-stonewarm-200 bg-sand-50 px-3 py-1.5 text-sm"
+              >
+                <option value="" disabled>
+                  Choose...
+                </option>
+                {conflictActionOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          {counts.withSnapshots > 0 ? (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeSnapshots}
+                onChange={(event) => setIncludeSnapshots(event.target.checked)}
+              />
+              Import snapshots and history
+            </label>
+          ) : null}
+        </div>
+
+        <ul className="mt-4 max-h-[55vh] divide-y divide-stonewarm-200 overflow-auto rounded-xl border border-stonewarm-200 px-4">
+          {preview.items.map((item) => (
+            <li key={item.index} className="flex items-start justify-between gap-3 py-3 text-sm">
+              <div className="min-w-0">
+                <p className="truncate font-medium text-stonewarm-900">{item.name}</p>
+                {item.conflict ? (
+                  <p className="text-xs text-amberearth">
+                    Conflicts with "{item.conflict.alertName}" (
+                    {item.conflict.reasons.map((reason) => conflictReasonLabel[reason]).join(', ')})
+                  </p>
+                ) : null}
+                {item.errors.map((error) => (
+                  <p key={error} className="text-xs text-clay-600">
+                    {error}
+                  </p>
+                ))}
+                {item.warnings.map((warning) => (
+                  <p key={warning} className="text-xs text-stonewarm-700">
+                    {warning}
+                  </p>
+                ))}
+              </div>
+              {item.draft ? (
+                <select
+                  value={actions[item.index] ?? 'skip'}
+                  onChange={(event) =>
+                    setActions((current) => ({ ...current, [item.index]: event.target.value as AlertImportAction }))
+                  }
+                  className="shrink-0 rounded-xl border border-stonewarm-200 bg-sand-50 px-3 py-1.5 text-sm text-stonewarm-900"
+                >
+                  {(item.conflict ? conflictActionOptions : newAlertActionOptions).map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="shrink-0 text-xs font-medium text-clay-600">Cannot import</span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-5 flex items-center justify-between gap-2">
+          <p className="text-xs text-stonewarm-700">
+            Merge updates the existing alert's settings and keeps its history. Replace swaps it out entirely.
+          </p>
+          <div className="flex shrink-0 gap-2">
+            <button
+              onClick={onClose}
+              className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => void handleImport()}
+              disabled={importing || counts.selected === 0}
+              className="rounded-xl bg-olive-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-olive-600 disabled:opacity-60"
+            >
+              {importing ? 'Importing...' : `Import ${counts.selected} alert${counts.selected === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import clsx from 'clsx';
+import { useCallback, useEffect, useState } from 'react';
+
+import type { BackupAlertChange, BackupDiff, BackupInfo, BackupReason, BackupRestoreRequest } from '../shared/types';
+import { formatDate } from '../utils';
+import { AuthPanel } from './AuthPanel';
+
+interface SettingsPanelProps {
+  open: boolean;
+  onClose: () => void;
+  onRestore: (request: BackupRestoreRequest) => Promise<boolean>;
+}
+
+const reasonLabel: Record<BackupReason, string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  beforeDelete: 'Before delete',
+  beforeImport: 'Before import',
+  beforeRestore: 'Before restore'
+};
+
+const changeLabel: Record<BackupAlertChange, string> = {
+  removed: 'Deleted since backup',
+  added: 'Added since backup',
+  changed: 'Changed',
+  unchanged: 'Unchanged'
+};
+
+const changeClass: Record<BackupAlertChange, string> = {
+  removed: 'text-clay-600',
+  added: 'text-stonewarm-700',
+  changed: 'text-amberearth',
+  unchanged: 'text-moss'
+};
+
+const fileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const isRestorable = (change: BackupAlertChange): boolean => change === 'removed' || change === 'changed';
+
+export function SettingsPanel({ open, onClose, onRestore }: SettingsPanelProps) {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [selectedBackupId, setSelectedBackupId] = useState<string>();
+  const [diff, setDiff] = useState<BackupDiff>();
+  const [selectedAlertIds, setSelectedAlertIds] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string>();
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await window.clickupMonitor.listBackups());
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load backups.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedBackupId(undefined);
+    setErrorMessage(undefined);
+    void loadBackups();
+  }, [open, loadBackups]);
+
+  useEffect(() => {
+    setDiff(undefined);
+    setSelectedAlertIds([]);
+    if (!selectedBackupId) return;
+
+    let cancelled = false;
+    window.clickupMonitor
+      .getBackupDiff(selectedBackupId)
+      .then((result) => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setErrorMessage(error instanceof Error ? error.message : 'Failed to compare backup.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedBackupId]);
+
+  if (!open) return null;
+
+  const handleBackupNow = async () => {
+    setBusy(true);
+    setErrorMessage(undefined);
+    try {
+      const backup = await window.clickupMonitor.createBackup();
+      await loadBackups();
+      setSelectedBackupId(backup.id);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Backup failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (alertIds?: string[]) => {
+    if (!diff) return;
+    const target = alertIds ? `${alertIds.length} selected alert${alertIds.length === 1 ? '' : 's'}` : 'every alert';
+    if (!window.confirm(`Restore ${target} from the backup of ${formatDate(diff.backup.createdAt)}?`)) return;
+
+    setBusy(true);
+    try {
+      await onRestore({ backupId: diff.backup.id, alertIds });
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleAlert = (alertId: string) =>
+    setSelectedAlertIds((current) =>
+      current.includes(alertId) ? current.filter((id) => id !== alertId) : [...current, alertId]
+    );
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-auto bg-stonewarm-900/45 p-8">
+      <div className="w-full max-w-4xl rounded-2xl border border-stonewarm-200 bg-white p-6 shadow-soft">
+        <div className="flex items-start justify-between gap-3">
+          <h2 className="text-xl font-semibold text-stonewarm-900">Settings</h2>
+          <button onClick={onClose} className="rounded-lg border border-stonewarm-300 px-3 py-1.5 text-sm text-stonewarm-900">
+            Close
+          </button>
+        </div>
+
+        <div className="mt-4">
+          <AuthPanel embedded />
+        </div>
+
+        <section className="mt-6 border-t border-stonewarm-200 pt-4">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h3 className="text-base font-semibold text-stonewarm-900">Backups</h3>
+              <p className="mt-1 text-sm text-stonewarm-700">
+                Alerts and their full snapshot history are backed up every few hours when they change, and before every
+                delete, overwriting import or restore. The latest 30 backups are kept, up to 100 MB in total.
+              </p>
+            </div>
+            <button
+              onClick={() => void handleBackupNow()}
+              disabled={busy}
+              className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100 disabled:opacity-60"
+            >
+              Back Up Now
+            </button>
+          </div>
+
+          {errorMessage ? <p className="mt-3 text-sm text-clay-600">{errorMessage}</p> : null}
+
+          <div className="mt-4 grid gap-4 md:grid-cols-[16rem_1fr]">
+            <ul className="max-h-[55vh] divide-y divide-stonewarm-200 overflow-auto rounded-xl border border-stonewarm-200">
+              {backups.length === 0 ? <li className="p-3 text-sm text-stonewarm-700">No backups yet.</li> : null}
+              {backups.map((backup) => (
+                <li key={backup.id}>
+                  <button
+                    onClick={() => setSelectedBackupId(backup.id)}
+                    className={clsx(
+                      'w-full px-3 py-2 text-left text-sm',
+                      selectedBackupId === backup.id ? 'bg-sand-100' : 'hover:bg-sand-50'
+                    )}
+                  >
+                    <span className="block font-medium text-stonewarm-900">{formatDate(backup.createdAt)}</span>
+                    <span className="text-xs text-stonewarm-700">
+                      {reasonLabel[backup.reason]} · {fileSize(backup.sizeBytes)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="min-w-0">
+              {!selectedBackupId ? (
+                <p className="text-sm text-stonewarm-700">Select a backup to compare it with the current alerts.</p>
+              ) : null}
+              {selectedBackupId && !diff && !errorMessage ? (
+                <p className="text-sm text-stonewarm-700">Comparing backup...</p>
+              ) : null}
+
+              {diff ? (
+                <>
+                  <ul className="max-h-[45vh] divide-y divide-stonewarm-200 overflow-auto rounded-xl border border-stonewarm-200 px-3">
+                    {diff.alerts.map((item) => (
+                      <li key={item.alertId} className="flex items-start gap-3 py-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="mt-1"
+                          disabled={!isRestorable(item.change)}
+                          checked={selectedAlertIds.includes(item.alertId)}
+                          onChange={() => toggleAlert(item.alertId)}
+                        />
+                        <div className="min-w-0">
+                          <p className="truncate font-medium text-stonewarm-900">{item.name}</p>
+                          <p className={clsx('text-xs', changeClass[item.change])}>
+                            {changeLabel[item.change]}
+                            {item.changedFields.length > 0 ? `: ${item.changedFields.join(', ')}` : ''}
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <div className="mt-3 flex flex-wrap justify-end gap-2">
+                    <button
+                      onClick={() => void handleRestore(selectedAlertIds)}
+                      disabled={busy || selectedAlertIds.length === 0}
+                      className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100 disabled:opacity-60"
+                    >
+                      Restore Selected ({selectedAlertIds.length})
+                    </button>
+                    <button
+                      onClick={() => void handleRestore()}
+                      disabled={busy}
+                      className="rounded-xl bg-olive-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-olive-600 disabled:opacity-60"
+                    >
+                      Restore Entire Backup
+                    </button>
+                  </div>
+                  <p className="mt-2 text-right text-xs text-stonewarm-700">
+                    Restoring everything also removes alerts added since the backup. A backup of the current state is
+                    taken first.
+                  </p>
+                </>
+              ) : null}
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
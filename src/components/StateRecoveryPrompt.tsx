@@ -0,0 +1,44 @@
+import type { StateRecoveryNotice } from '../shared/types';
+import { formatDate } from '../utils';
+
+interface StateRecoveryPromptProps {
+  recovery?: StateRecoveryNotice;
+  onRevealBackup: () => void;
+  onDismiss: () => void;
+}
+
+export function StateRecoveryPrompt({ recovery, onRevealBackup, onDismiss }: StateRecoveryPromptProps) {
+  if (!recovery) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-stonewarm-900/45 p-8">
+      <div className="w-full max-w-lg rounded-2xl border border-stonewarm-200 bg-white p-6 shadow-soft">
+        <h2 className="text-xl font-semibold text-stonewarm-900">Saved data could not be loaded</h2>
+        <p className="mt-2 text-sm text-stonewarm-700">{recovery.message}</p>
+        <p className="mt-3 text-sm text-stonewarm-700">
+          Nothing was deleted. The original file was moved aside on {formatDate(recovery.detectedAt)} and kept at:
+        </p>
+        <p className="mt-1 break-all rounded-xl bg-sand-100 p-3 font-mono text-xs text-stonewarm-900">{recovery.backupPath}</p>
+        <p className="mt-3 text-xs text-stonewarm-700">
+          To restore it, quit the app, fix or replace the file, and copy it back over the current data file. Automatic
+          backups of earlier alerts can also be restored from Settings.
+        </p>
+
+        <div className="mt-5 flex flex-wrap justify-end gap-2">
+          <button
+            onClick={onRevealBackup}
+            className="rounded-xl border border-stonewarm-300 px-4 py-2 text-sm font-medium text-stonewarm-900 transition hover:bg-sand-100"
+          >
+            Show Backup File
+          </button>
+          <button
+            onClick={onDismiss}
+            className="rounded-xl bg-olive-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-olive-600"
+          >
+            Continue With Empty Data
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
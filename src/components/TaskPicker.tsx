@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+
+import type { TaskSearchResult } from '../shared/types';
+import { hours } from '../utils';
+
+interface TaskPickerProps {
+  label: string;
+  connectionId?: string;
+  listIds: string[];
+  selectedIds: string[];
+  taskNames: Record<string, string>;
+  emptyLabel: string;
+  error?: string;
+  onChange: (selectedIds: string[], taskNames: Record<string, string>) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const taskIdPattern = /^[a-zA-Z0-9_-]+$/;
+
+export function TaskPicker({
+  label,
+  connectionId,
+  listIds,
+  selectedIds,
+  taskNames,
+  emptyLabel,
+  error,
+  onChange
+}: TaskPickerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<TaskSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string>();
+
+  const listKey = listIds.join(',');
+
+  useEffect(() => {
+    const search = query.trim();
+    if (!search || !listKey) {
+      setResults([]);
+      setErrorMessage(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setLoading(true);
+      window.clickupMonitor
+        .searchTasks({ connectionId, listIds: listKey.split(','), search })
+        .then((found) => {
+          if (!cancelled) {
+            setResults(found);
+            setErrorMessage(undefined);
+          }
+        })
+        .catch((searchError: unknown) => {
+          if (!cancelled) setErrorMessage(searchError instanceof Error ? searchError.message : 'Task search failed.');
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, listKey, connectionId]);
+
+  const toggle = (id: string, name: string | undefined, enabled: boolean) => {
+    const nextIds = enabled ? [...selectedIds, id] : selectedIds.filter((item) => item !== id);
+    onChange(nextIds, name ? { ...taskNames, [id]: name } : taskNames);
+  };
+
+  const trimmedQuery = query.trim();
+  const canAddRawId =
+    taskIdPattern.test(trimmedQuery) &&
+    !selectedIds.includes(trimmedQuery) &&
+    !results.some((task) => task.id === trimmedQuery);
+
+  return (
+    <div className="block md:col-span-2">
+      <span className="mb-1 block text-sm font-medium text-stonewarm-900">{label}</span>
+
+      <div className="mb-2 flex flex-wrap gap-2 text-xs">
+        {selectedIds.length === 0 ? <span className="text-stonewarm-700">{emptyLabel}</span> : null}
+        {selectedIds.map((id) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => toggle(id, undefined, false)}
+            className="rounded-lg border border-stonewarm-300 px-2 py-1 text-stonewarm-900 hover:bg-sand-100"
+            title={`Remove ${id}`}
+          >
+            {taskNames[id] ?? id} ×
+          </button>
+        ))}
+      </div>
+
+      <input
+        className="w-full rounded-xl border border-stonewarm-200 bg-sand-50 px-3 py-2 text-sm text-stonewarm-900 outline-none ring-clay-500 transition focus:ring-2"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder={listIds.length ? 'Search tasks by name or ID' : 'Select a scope to search its tasks'}
+        disabled={listIds.length === 0}
+      />
+
+      {loading ? <p className="mt-1 text-xs text-stonewarm-700">Searching tasks...</p> : null}
+      {errorMessage ? <p className="mt-1 text-xs text-clay-600">{errorMessage}</p> : null}
+
+      {trimmedQuery && (results.length > 0 || canAddRawId) ? (
+        <ul className="mt-2 max-h-48 divide-y divide-stonewarm-200 overflow-auto rounded-xl border border-stonewarm-200 bg-white">
+          {results.map((task) => (
+            <li key={task.id}>
+              <label className="flex items-center justify-between gap-3 px-3 py-2 text-sm text-stonewarm-900">
+                <span className="flex min-w-0 items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(task.id)}
+                    onChange={(event) => toggle(task.id, task.name, event.target.checked)}
+                  />
+                  <span className="truncate">{task.name}</span>
+                </span>
+                <span className="shrink-0 text-xs text-stonewarm-700">
+                  {task.status ? `${task.status} · ` : ''}
+                  {task.trackedHours !== undefined ? `${hours(task.trackedHours)} · ` : ''}
+                  {task.id}
+                </span>
+              </label>
+            </li>
+          ))}
+          {canAddRawId ? (
+            <li>
+              <button
+                type="button"
+                onClick={() => {
+                  toggle(trimmedQuery, undefined, true);
+                  setQuery('');
+                }}
+                className="w-full px-3 py-2 text-left text-sm text-olive-600 hover:bg-sand-100"
+              >
+                Add task ID {trimmedQuery}
+              </button>
+            </li>
+          ) : null}
+        </ul>
+      ) : null}
+
+      {error ? <span className="mt-1 block text-xs text-clay-600">{error}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+
+import { taskNamePatternOptions, taskRuleActionOptions, taskRuleFieldOptions } from '../shared/taskRules';
+import type { TaskNamePatternType, TaskRule, TaskRuleAction, TaskRuleField, TaskRulePreview } from '../shared/types';
+
+interface TaskRulesEditorProps {
+  connectionId?: string;
+  listIds: string[];
+  rules: TaskRule[];
+  error?: string;
+  onChange: (rules: TaskRule[]) => void;
+}
+
+const fieldClass =
+  'rounded-xl border border-stonewarm-200 bg-sand-50 px-3 py-2 text-sm text-stonewarm-900 outline-none ring-clay-500 transition focus:ring-2';
+
+const PREVIEW_TASK_LIMIT = 5;
+
+const valuePlaceholder = (rule: TaskRule): string => {
+  if (rule.field === 'status') return 'internal';
+  if (rule.field === 'customField') return 'Field value';
+  return rule.patternType === 'regex' ? '^\\[Internal\\]' : 'Internal *';
+};
+
+export function TaskRulesEditor({ connectionId, listIds, rules, error, onChange }: TaskRulesEditorProps) {
+  const [preview, setPreview] = useState<TaskRulePreview>();
+  const [previewing, setPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string>();
+
+  const updateRule = (index: number, partial: Partial<TaskRule>) => {
+    setPreview(undefined);
+    onChange(rules.map((rule, itemIndex) => (itemIndex === index ? { ...rule, ...partial } : rule)));
+  };
+
+  const removeRule = (index: number) => {
+    setPreview(undefined);
+    onChange(rules.filter((_, itemIndex) => itemIndex !== index));
+  };
+
+  const addRule = () => {
+    setPreview(undefined);
+    onChange([...rules, { action: 'exclude', field: 'status', value: '' }]);
+  };
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    setPreviewError(undefined);
+    try {
+      setPreview(
+        await window.clickupMonitor.previewTaskRules({
+          connectionId,
+          listIds,
+          rules: rules.filter((rule) => rule.value.trim())
+        })
+      );
+    } catch (previewFailure) {
+      setPreviewError(previewFailure instanceof Error ? previewFailure.message : 'Failed to preview task rules.');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const previewRules = rules.filter((rule) => rule.value.trim());
+
+  return (
+    <div className="block md:col-span-2">
+      <span className="mb-1 block text-sm font-medium text-stonewarm-900">Task Rules (optional)</span>
+      <p className="mb-2 text-xs text-stonewarm-700">
+        Rules are checked against the current task status, custom fields and name on every refresh, so new tasks are
+        picked up automatically.
+      </p>
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => {
+          const ruleMatch = preview ? preview.rules[previewRules.indexOf(rule)] : undefined;
+
+          return (
+            <div key={index} className="rounded-xl border border-stonewarm-200 p-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  className={fieldClass}
+                  value={rule.action}
+                  onChange={(event) => updateRule(index, { action: event.target.value as TaskRuleAction })}
+                >
+                  {taskRuleActionOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className={fieldClass}
+                  value={rule.field}
+                  onChange={(event) => {
+                    const field = event.target.value as TaskRuleField;
+                    updateRule(index, {
+                      field,
+                      customFieldName: field === 'customField' ? rule.customFieldName : undefined,
+                      patternType: field === 'name' ? (rule.patternType ?? 'glob') : undefined
+                    });
+                  }}
+                >
+                  {taskRuleFieldOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {rule.field === 'customField' ? (
+                  <input
+                    className={fieldClass}
+                    value={rule.customFieldName ?? ''}
+                    onChange={(event) => updateRule(index, { customFieldName: event.target.value })}
+                    placeholder="Custom field name"
+                  />
+                ) : null}
+                {rule.field === 'name' ? (
+                  <select
+                    className={fieldClass}
+                    value={rule.patternType ?? 'glob'}
+                    onChange={(event) => updateRule(index, { patternType: event.target.value as TaskNamePatternType })}
+                  >
+                    {taskNamePatternOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : null}
+                <input
+                  className={`${fieldClass} min-w-0 flex-1`}
+                  value={rule.value}
+                  onChange={(event) => updateRule(index, { value: event.target.value })}
+                  placeholder={valuePlaceholder(rule)}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeRule(index)}
+                  className="rounded-lg border border-stonewarm-300 px-2 py-1 text-xs text-stonewarm-900 hover:bg-sand-100"
+                >
+                  Remove
+                </button>
+              </div>
+
+              {ruleMatch ? (
+                <p className="mt-2 text-xs text-stonewarm-700">
+                  Matches {ruleMatch.matchCount} task{ruleMatch.matchCount === 1 ? '' : 's'}
+                  {ruleMatch.tasks.length > 0
+                    ? `: ${ruleMatch.tasks
+                        .slice(0, PREVIEW_TASK_LIMIT)
+                        .map((task) => task.name)
+                        .join(', ')}${ruleMatch.matchCount > PREVIEW_TASK_LIMIT ? ' ...' : ''}`
+                    : ''}
+                </p>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={addRule}
+          className="rounded-lg border border-stonewarm-300 px-3 py-1.5 text-xs text-stonewarm-900 hover:bg-sand-100"
+        >
+          Add rule
+        </button>
+        <button
+          type="button"
+          onClick={() => void runPreview()}
+          disabled={previewing || previewRules.length === 0 || listIds.length === 0}
+          className="rounded-lg border border-olive-500 px-3 py-1.5 text-xs text-olive-600 hover:bg-olive-500/10 disabled:opacity-50"
+        >
+          {previewing ? 'Loading tasks...' : 'Preview matches'}
+        </button>
+        {preview ? (
+          <span className="text-xs text-stonewarm-700">
+            {preview.countedTaskCount} of {preview.totalTaskCount} tasks in scope pass these rules
+          </span>
+        ) : null}
+      </div>
+
+      {previewError ? <span className="mt-1 block text-xs text-clay-600">{previewError}</span> : null}
+      {error ? <span className="mt-1 block text-xs text-clay-600">{error}</span> : null}
+    </div>
+  );
+}
@@ -4,8 +4,22 @@ import type { ConnectionResult } from '../shared/ipc';
 import type {
   AlertConfig,
   AlertDraft,
+  AlertExportOptions,
+  AlertImportPreview,
+  AlertImportResult,
+  AlertImportSelection,
+  AuthState,
+  BackupRestoreRequest,
+  ClickUpConnection,
+  ConnectionInput,
+  RateLimitStatus,
   RefreshAlertResult,
+  ResponseCacheStats,
+  SchedulerProgressEvent,
+  SchedulerStatus,
   ScopeTreeTeam,
+  StateRecoveryNotice,
+  TeamMember,
   UiPreferences
 } from '../shared/types';
 
@@ -14,20 +28,24 @@ interface BudgetMonitorState {
   loading: boolean;
   errorMessage?: string;
   noticeMessage?: string;
-  auth: {
-    hasToken: boolean;
-    teams: Array<{ id: string; name: string }>;
-  };
+  recovery?: StateRecoveryNotice;
+  auth: AuthState;
   scopeTree: ScopeTreeTeam[];
+  teamMembers: Record<string, TeamMember[]>;
   alerts: AlertConfig[];
   uiPreferences: UiPreferences;
   refreshingAll: boolean;
   refreshingAlertIds: string[];
+  schedulerStatus: SchedulerStatus;
+  cacheStats?: ResponseCacheStats;
+  rateLimitStatus: RateLimitStatus[];
   init: () => Promise<void>;
-  testConnection: (token?: string) => Promise<ConnectionResult>;
-  configureToken: (token: string) => Promise<ConnectionResult>;
-  clearToken: () => Promise<void>;
+  loadConnections: () => Promise<void>;
+  testConnection: (input: { id?: string; token?: string }) => Promise<ConnectionResult>;
+  saveConnection: (input: ConnectionInput) => Promise<ClickUpConnection | undefined>;
+  deleteConnection: (id: string) => Promise<boolean>;
   loadScopeTree: () => Promise<void>;
+  loadTeamMembers: (teamId: string, connectionId?: string) => Promise<void>;
   createAlert: (draft: AlertDraft) => Promise<void>;
   updateAlert: (id: string, draft: AlertDraft) => Promise<void>;
   deleteAlert: (id: string) => Promise<void>;
@@ -35,9 +53,17 @@ interface BudgetMonitorState {
   reorderAlerts: (ids: string[]) => Promise<void>;
   refreshAlert: (id: string) => Promise<RefreshAlertResult>;
   refreshAll: () => Promise<RefreshAlertResult[]>;
-  runAutoRefreshDue: () => Promise<void>;
+  applySchedulerProgress: (event: SchedulerProgressEvent) => void;
   updateUiPreferences: (partial: Partial<UiPreferences>) => void;
   exportCsv: () => Promise<string | undefined>;
+  exportAlerts: (options: AlertExportOptions) => Promise<string | undefined>;
+  previewAlertImport: () => Promise<AlertImportPreview | undefined>;
+  importAlerts: (selections: AlertImportSelection[]) => Promise<AlertImportResult | undefined>;
+  restoreBackup: (request: BackupRestoreRequest) => Promise<boolean>;
+  loadApiStatus: () => Promise<void>;
+  clearResponseCache: () => Promise<void>;
+  dismissRecovery: () => Promise<void>;
+  revealStateBackup: () => Promise<void>;
   clearMessage: () => void;
 }
 
@@ -56,34 +82,48 @@ export const useBudgetMonitorStore = create<BudgetMonitorState>((set, get) => ({
   initialized: false,
   loading: true,
   auth: {
-    hasToken: false,
+    connections: [],
     teams: []
   },
   scopeTree: [],
+  teamMembers: {},
   alerts: [],
   uiPreferences: {
     search: '',
     statusFilter: 'all',
-    sortBy: 'percentUsed'
+    sortBy: 'percentUsed',
+    workspaceTimeZones: {}
   },
   refreshingAll: false,
   refreshingAlertIds: [],
+  schedulerStatus: {
+    running: false,
+    total: 0,
+    completed: 0
+  },
+  rateLimitStatus: [],
 
   init: async () => {
     set({ loading: true, errorMessage: undefined });
     try {
-      const payload = await window.clickupMonitor.getInitialData();
+      const [payload, schedulerStatus] = await Promise.all([
+        window.clickupMonitor.getInitialData(),
+        window.clickupMonitor.getSchedulerStatus()
+      ]);
       set({
         initialized: true,
         loading: false,
         auth: payload.auth,
         alerts: sortAlerts(payload.alerts),
         uiPreferences: payload.uiPreferences,
+        recovery: payload.recovery,
+        schedulerStatus,
         errorMessage: undefined
       });
 
-      if (payload.auth.hasToken) {
+      if (payload.auth.connections.length > 0) {
         await get().loadScopeTree();
+        void get().loadApiStatus();
       }
     } catch (error) {
       set({
@@ -94,62 +134,85 @@ export const useBudgetMonitorStore = create<BudgetMonitorState>((set, get) => ({
     }
   },
 
-  testConnection: async (token?: string) => {
-    const result = await window.clickupMonitor.testConnection(token);
+  loadConnections: async () => {
+    try {
+      const connections = await window.clickupMonitor.listConnections();
+      set((state) => ({ auth: { ...state.auth, connections } }));
+    } catch (error) {
+      set({ errorMessage: error instanceof Error ? error.message : 'Failed to load ClickUp connections.' });
+    }
+  },
+
+  testConnection: async (input) => {
+    const result = await window.clickupMonitor.testConnection(input);
     if (!result.ok) {
       set({ errorMessage: result.message });
     }
+    if (input.id) {
+      await get().loadConnections();
+    }
     return result;
   },
 
-  configureToken: async (token: string) => {
-    set({ loading: true, errorMessage: undefined, noticeMessage: undefined });
+  saveConnection: async (input) => {
+    set({ errorMessage: undefined, noticeMessage: undefined });
     try {
-      const result = await window.clickupMonitor.testConnection(token);
-      if (!result.ok) {
-        set({ loading: false, errorMessage: result.message ?? 'Token validation failed.' });
-        return result;
+      const saved = await window.clickupMonitor.saveConnection(input);
+      await get().loadConnections();
+      await get().loadScopeTree();
+      void get().loadApiStatus();
+
+      if (saved.testStatus === 'failed') {
+        set({ errorMessage: `"${saved.name}" was saved, but the connection test failed: ${saved.testMessage}` });
+      } else {
+        set({ noticeMessage: `Connection "${saved.name}" saved.` });
       }
-
-      await window.clickupMonitor.saveToken(token.trim());
-      const scopeTree = await window.clickupMonitor.getScopeTree();
-
-      set({
-        loading: false,
-        auth: { hasToken: true, teams: result.teams },
-        scopeTree,
-        errorMessage: undefined,
-        noticeMessage: 'Token saved successfully.'
-      });
-
-      return result;
+      return saved;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unable to save token.';
-      set({ loading: false, errorMessage: message });
-      return { ok: false, teams: [], message };
+      set({ errorMessage: error instanceof Error ? error.message : 'Unable to save connection.' });
+      return undefined;
     }
   },
 
-  clearToken: async () => {
-    await window.clickupMonitor.clearToken();
-    set({
-      auth: { hasToken: false, teams: [] },
-      scopeTree: [],
-      errorMessage: undefined,
-      noticeMessage: 'Token cleared.'
-    });
+  deleteConnection: async (id) => {
+    try {
+      await window.clickupMonitor.deleteConnection(id);
+      await get().loadConnections();
+      if (get().auth.connections.length > 0) {
+        await get().loadScopeTree();
+      } else {
+        set({ auth: { connections: [], teams: [] }, scopeTree: [], teamMembers: {} });
+      }
+      set({ noticeMessage: 'Connection deleted.' });
+      return true;
+    } catch (error) {
+      set({ errorMessage: error instanceof Error ? error.message : 'Unable to delete connection.' });
+      return false;
+    }
   },
 
   loadScopeTree: async () => {
     try {
       const scopeTree = await window.clickupMonitor.getScopeTree();
-      const teams = scopeTree.map((team) => ({ id: team.id, name: team.name }));
-      set({ scopeTree, auth: { hasToken: true, teams } });
+      // A workspace reachable through several connections is still one workspace.
+      const teams = [...new Map(scopeTree.map((team) => [team.id, { id: team.id, name: team.name }])).values()];
+      set((state) => ({ scopeTree, auth: { ...state.auth, teams } }));
     } catch (error) {
       set({ errorMessage: error instanceof Error ? error.message : 'Failed to load workspace scopes.' });
     }
   },
 
+  loadTeamMembers: async (teamId: string, connectionId?: string) => {
+    if (!teamId || get().teamMembers[teamId]) return;
+
+    try {
+      const members = await window.clickupMonitor.getTeamMembers(teamId, connectionId);
+      set((state) => ({ teamMembers: { ...state.teamMembers, [teamId]: members } }));
+    } catch (error) {
+      set({ errorMessage: error instanceof Error ? error.message : 'Failed to load workspace members.' });
+    }
+  },
+
   createAlert: async (draft: AlertDraft) => {
     const created = await window.clickupMonitor.createAlert(draft);
     set((state) => ({ alerts: sortAlerts([...state.alerts, created]) }));
@@ -209,6 +272,7 @@ export const useBudgetMonitorStore = create<BudgetMonitorState>((set, get) => ({
         refreshingAll: false,
         alerts: mergeRefreshResults(state.alerts, results)
       }));
+      void get().loadApiStatus();
 
       const failures = results.filter((item) => !item.success).length;
       if (failures > 0) {
@@ -223,22 +287,13 @@ export const useBudgetMonitorStore = create<BudgetMonitorState>((set, get) => ({
     }
   },
 
-  runAutoRefreshDue: async () => {
-    const now = Date.now();
-    const dueAlerts = get().alerts.filter((alert) => {
-      if (!alert.active) return false;
-      if (!alert.refreshFrequencyMinutes || alert.refreshFrequencyMinutes <= 0) return false;
-      const last = alert.lastRefreshedAt ? new Date(alert.lastRefreshedAt).getTime() : 0;
-      return now - last >= alert.refreshFrequencyMinutes * 60_000;
-    });
+  applySchedulerProgress: (event) => {
+    set((state) => ({
+      schedulerStatus: event.status,
+      alerts: event.result ? mergeRefreshResults(state.alerts, [event.result]) : state.alerts
+    }));
 
-    for (const alert of dueAlerts) {
-      try {
-        await get().refreshAlert(alert.id);
-      } catch {
-        // Error state is already surfaced by refreshAlert.
-      }
-    }
+    void get().loadApiStatus();
   },
 
   updateUiPreferences: (partial) => {
@@ -268,6 +323,100 @@ export const useBudgetMonitorStore = create<BudgetMonitorState>((set, get) => ({
     }
   },
 
+  exportAlerts: async (options) => {
+    try {
+      const result = await window.clickupMonitor.exportAlerts(options);
+      set({ noticeMessage: `Alert definitions exported to ${result.filePath}` });
+      return result.filePath;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Alert export failed.';
+      if (message !== 'Export canceled.') {
+        set({ errorMessage: message });
+      }
+      return undefined;
+    }
+  },
+
+  previewAlertImport: async () => {
+    try {
+      return await window.clickupMonitor.previewAlertImport();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to read the import file.';
+      if (message !== 'Import canceled.') {
+        set({ errorMessage: message });
+      }
+      return undefined;
+    }
+  },
+
+  importAlerts: async (selections) => {
+    try {
+      const result = await window.clickupMonitor.importAlerts(selections);
+      set({
+        alerts: sortAlerts(result.alerts),
+        noticeMessage: `Import finished: ${result.created} created, ${result.merged} merged, ${result.replaced} replaced, ${result.skipped} skipped.`
+      });
+      return result;
+    } catch (error) {
+      set({ errorMessage: error instanceof Error ? error.message : 'Alert import failed.' });
+      return undefined;
+    }
+  },
+
+  restoreBackup: async (request) => {
+    try {
+      const alerts = await window.clickupMonitor.restoreBackup(request);
+      const restoredCount = request.alertIds?.length;
+      set({
+        alerts: sortAlerts(alerts),
+        noticeMessage: restoredCount
+          ? `Restored ${restoredCount} alert${restoredCount === 1 ? '' : 's'} from backup.`
+          : 'Backup restored.'
+      });
+      return true;
+    } catch (error) {
+      set({ errorMessage: error instanceof Error ? error.message : 'Backup restore failed.' });
+      return false;
+    }
+  },
+
+  loadApiStatus: async () => {
+    try {
+      const [cacheStats, rateLimitStatus] = await Promise.all([
+        window.clickupMonitor.getCacheStats(),
+        window.clickupMonitor.getRateLimitStatus()
+      ]);
+      set({ cacheStats, rateLimitStatus });
+    } catch {
+      // Cache and rate limit stats are informational only.
+    }
+  },
+
+  clearResponseCache: async () => {
+    try {
+      const cacheStats = await window.clickupMonitor.clearCache();
+      set({ cacheStats, noticeMessage: 'ClickUp response cache cleared. Workspaces reloaded.' });
+      await get().loadScopeTree();
+    } catch (error) {
+      set({ errorMessage: error instanceof Error ? error.message : 'Failed to clear the response cache.' });
+    }
+  },
+
+  dismissRecovery: async () => {
+    set({ recovery: undefined });
+    await window.clickupMonitor.dismissStateRecovery().catch(() => {
+      // The notice comes back on next launch if dismissing fails; nothing else depends on it.
+    });
+  },
+
+  revealStateBackup: async () => {
+    try {
+      await window.clickupMonitor.revealStateBackup();
+    } catch (error) {
+      set({ errorMessage: error instanceof Error ? error.message : 'Unable to show the backup file.' });
+    }
+  },
+
   clearMessage: () => {
     set({ errorMessage: undefined, noticeMessage: undefined });
   }
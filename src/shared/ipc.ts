@@ -1,10 +1,31 @@
 import type {
   AlertConfig,
   AlertDraft,
+  AlertEntryBreakdown,
+  AlertExportOptions,
+  AlertImportPreview,
+  AlertImportResult,
+  AlertImportSelection,
+  AlertSnapshot,
+  BackupDiff,
+  BackupInfo,
+  BackupRestoreRequest,
+  ClickUpConnection,
+  ConnectionInput,
   InitialData,
+  RateLimitStatus,
   RefreshAlertResult,
+  ResponseCacheStats,
+  SchedulerProgressEvent,
+  SchedulerStatus,
   ScopeTreeTeam,
+  SnapshotHistoryQuery,
+  TaskRulePreview,
+  TaskRulePreviewQuery,
+  TaskSearchQuery,
+  TaskSearchResult,
   TeamInfo,
+  TeamMember,
   UiPreferences
 } from './types';
 
@@ -16,10 +37,16 @@ export interface ConnectionResult {
 
 export interface DesktopApi {
   getInitialData: () => Promise<InitialData>;
-  testConnection: (token?: string) => Promise<ConnectionResult>;
-  saveToken: (token: string) => Promise<void>;
-  clearToken: () => Promise<void>;
+  dismissStateRecovery: () => Promise<void>;
+  revealStateBackup: () => Promise<void>;
+  listConnections: () => Promise<ClickUpConnection[]>;
+  testConnection: (input: { id?: string; token?: string }) => Promise<ConnectionResult>;
+  saveConnection: (input: ConnectionInput) => Promise<ClickUpConnection>;
+  deleteConnection: (id: string) => Promise<void>;
   getScopeTree: () => Promise<ScopeTreeTeam[]>;
+  getTeamMembers: (teamId: string, connectionId?: string) => Promise<TeamMember[]>;
+  searchTasks: (query: TaskSearchQuery) => Promise<TaskSearchResult[]>;
+  previewTaskRules: (query: TaskRulePreviewQuery) => Promise<TaskRulePreview>;
   createAlert: (draft: AlertDraft) => Promise<AlertConfig>;
   updateAlert: (id: string, draft: AlertDraft) => Promise<AlertConfig>;
   deleteAlert: (id: string) => Promise<void>;
@@ -27,7 +54,23 @@ export interface DesktopApi {
   reorderAlerts: (ids: string[]) => Promise<AlertConfig[]>;
   refreshAlert: (id: string) => Promise<RefreshAlertResult>;
   refreshAllAlerts: () => Promise<RefreshAlertResult[]>;
+  getAlertEntries: (id: string) => Promise<AlertEntryBreakdown>;
+  getSnapshotHistory: (query: SnapshotHistoryQuery) => Promise<AlertSnapshot[]>;
+  listBackups: () => Promise<BackupInfo[]>;
+  createBackup: () => Promise<BackupInfo>;
+  getBackupDiff: (backupId: string) => Promise<BackupDiff>;
+  restoreBackup: (request: BackupRestoreRequest) => Promise<AlertConfig[]>;
+  getCacheStats: () => Promise<ResponseCacheStats>;
+  clearCache: () => Promise<ResponseCacheStats>;
+  getRateLimitStatus: () => Promise<RateLimitStatus[]>;
+  getSchedulerStatus: () => Promise<SchedulerStatus>;
+  runScheduledRefreshNow: () => Promise<SchedulerStatus>;
   updateUiPreferences: (prefs: Partial<UiPreferences>) => Promise<UiPreferences>;
   exportCsv: () => Promise<{ filePath: string }>;
+  exportAlerts: (options: AlertExportOptions) => Promise<{ filePath: string }>;
+  previewAlertImport: () => Promise<AlertImportPreview>;
+  importAlerts: (selections: AlertImportSelection[]) => Promise<AlertImportResult>;
   copyImageToClipboard: (dataUrl: string) => Promise<void>;
+  onFocusAlert: (listener: (alertId: string) => void) => () => void;
+  onSchedulerProgress: (listener: (event: SchedulerProgressEvent) => void) => () => void;
 }
@@ -0,0 +1,11 @@
+import type { NotificationTrigger } from './types';
+
+export const DEFAULT_NOTIFY_ON: NotificationTrigger[] = ['warning', 'critical', 'error'];
+
+export const notificationTriggerOptions: Array<{ label: string; value: NotificationTrigger }> = [
+  { label: 'Warning threshold reached', value: 'warning' },
+  { label: 'Critical threshold reached', value: 'critical' },
+  { label: 'Projected to go over budget', value: 'projected' },
+  { label: 'Refresh error', value: 'error' },
+  { label: 'Back to safe', value: 'recovered' }
+];
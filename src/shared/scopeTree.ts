@@ -0,0 +1,73 @@
+import type {
+  AlertConfig,
+  AlertScopeRef,
+  ListInfo,
+  ScopeTreeFolder,
+  ScopeTreeSpace,
+  ScopeTreeTeam,
+  ScopeType
+} from './types';
+
+// Multi-scope alerts have no single scope type; their folders and lists live in `scopes`.
+export const resolveAlertScopeType = (alert: Pick<AlertConfig, 'type' | 'customScopeType'>): ScopeType | undefined => {
+  if (alert.type === 'multi') return undefined;
+  return alert.type === 'custom' ? alert.customScopeType : alert.type;
+};
+
+// Folderless lists first, then lists nested in the space's folders.
+export const getSpaceLists = (space: ScopeTreeSpace): ListInfo[] => [
+  ...space.lists,
+  ...space.folders.flatMap((folder) => folder.lists)
+];
+
+export const getTeamFolders = (team: ScopeTreeTeam): ScopeTreeFolder[] => team.spaces.flatMap((space) => space.folders);
+
+export const getTeamLists = (team: ScopeTreeTeam): ListInfo[] => team.spaces.flatMap(getSpaceLists);
+
+export const resolveScopeListIds = (
+  alert: Pick<AlertConfig, 'type' | 'customScopeType' | 'spaceId' | 'folderId' | 'listId' | 'scopes'>,
+  team: ScopeTreeTeam
+): string[] => {
+  const folders = getTeamFolders(team);
+  const folderListIds = (folderId?: string) =>
+    folders.find((folder) => folder.id === folderId)?.lists.map((list) => list.id) ?? [];
+
+  if (alert.type === 'multi') {
+    const ids = (alert.scopes ?? []).flatMap((scope) => (scope.type === 'folder' ? folderListIds(scope.id) : [scope.id]));
+    return [...new Set(ids)];
+  }
+
+  const scopeType = resolveAlertScopeType(alert);
+  if (scopeType === 'space') {
+    const space = team.spaces.find((item) => item.id === alert.spaceId);
+    return space ? getSpaceLists(space).map((list) => list.id) : [];
+  }
+  if (scopeType === 'folder') return folderListIds(alert.folderId);
+  return alert.listId ? [alert.listId] : [];
+};
+
+export const findScopeRefName = (team: ScopeTreeTeam, scope: AlertScopeRef): string | undefined =>
+  scope.type === 'folder'
+    ? getTeamFolders(team).find((folder) => folder.id === scope.id)?.name
+    : getTeamLists(team).find((list) => list.id === scope.id)?.name;
+
+export const findSpaceForScope = (
+  team: ScopeTreeTeam,
+  scope: { spaceId?: string; folderId?: string; listId?: string }
+): ScopeTreeSpace | undefined => {
+  if (scope.spaceId) {
+    const space = team.spaces.find((item) => item.id === scope.spaceId);
+    if (space) return space;
+  }
+
+  if (scope.folderId) {
+    const space = team.spaces.find((item) => item.folders.some((folder) => folder.id === scope.folderId));
+    if (space) return space;
+  }
+
+  if (scope.listId) {
+    return team.spaces.find((item) => getSpaceLists(item).some((list) => list.id === scope.listId));
+  }
+
+  return undefined;
+};
@@ -0,0 +1,16 @@
+import type { AlertConfig, AlertStatus } from './types';
+
+export const statusSeverity: Record<AlertStatus, number> = {
+  inactive: 0,
+  green: 0,
+  projected: 1,
+  yellow: 2,
+  red: 3,
+  error: 4
+};
+
+export const getWorstAlertStatus = (alerts: AlertConfig[]): AlertStatus =>
+  alerts
+    .filter((alert) => alert.active)
+    .map((alert) => alert.lastSnapshot?.status ?? 'green')
+    .reduce<AlertStatus>((worst, status) => (statusSeverity[status] > statusSeverity[worst] ? status : worst), 'green');
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import { compileNamePattern, createTaskRuleFilter, isValidNamePattern, MAX_NAME_PATTERN_LENGTH } from './taskRules';
+
+const regex = (value: string) => ({ value, patternType: 'regex' as const });
+
+describe('name pattern safety', () => {
+  it.each(['(a+)+', '(a*)*b', '((a+))+', '(?:\\w+\\s?)+$', '(x{2,3}){2}'])('rejects nested repeats in %s', (value) => {
+    expect(isValidNamePattern(regex(value))).toBe(false);
+  });
+
+  it.each(['(a|a)+$', '(a|aa)+$', '(\\w|\\d)+x', '(?:a|a)*$', '((a|b)c)+'])(
+    'rejects repeated alternation in %s',
+    (value) => {
+      expect(isValidNamePattern(regex(value))).toBe(false);
+    }
+  );
+
+  it.each(['^Bug\\b.*', 'design|review', '(?:ab)*', '(?<prefix>QA)-\\d+', '[(a+|b)]+', '\\(a|b\\)+', '(?=a+)'])(
+    'accepts %s',
+    (value) => {
+      expect(isValidNamePattern(regex(value))).toBe(true);
+    }
+  );
+
+  it('rejects patterns over the length limit', () => {
+    expect(isValidNamePattern(regex('a'.repeat(MAX_NAME_PATTERN_LENGTH + 1)))).toBe(false);
+    expect(isValidNamePattern({ value: '*'.repeat(MAX_NAME_PATTERN_LENGTH + 1), patternType: 'glob' })).toBe(false);
+  });
+
+  it('matches globs case-insensitively against the whole name', () => {
+    expect(compileNamePattern({ value: 'Bug ?-*', patternType: 'glob' }).test('bug 1-login')).toBe(true);
+    expect(compileNamePattern({ value: 'Bug*', patternType: 'glob' }).test('Not a bug')).toBe(false);
+  });
+});
+
+describe('createTaskRuleFilter', () => {
+  it('applies exclude rules before include rules', () => {
+    const matches = createTaskRuleFilter([
+      { action: 'include', field: 'status', value: 'In Progress' },
+      { action: 'exclude', field: 'name', value: 'WIP*', patternType: 'glob' }
+    ]);
+
+    expect(matches({ name: 'Login page', status: 'in progress' })).toBe(true);
+    expect(matches({ name: 'WIP login page', status: 'in progress' })).toBe(false);
+    expect(matches({ name: 'Login page', status: 'done' })).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import type { TaskCustomFieldValue, TaskNamePatternType, TaskRule, TaskRuleAction, TaskRuleField } from './types';
+
+export interface TaskRuleSubject {
+  name?: string;
+  status?: string;
+  customFields?: TaskCustomFieldValue[];
+}
+
+export const taskRuleActionOptions: Array<{ label: string; value: TaskRuleAction }> = [
+  { label: 'Exclude tasks where', value: 'exclude' },
+  { label: 'Only include tasks where', value: 'include' }
+];
+
+export const taskRuleFieldOptions: Array<{ label: string; value: TaskRuleField }> = [
+  { label: 'Status is', value: 'status' },
+  { label: 'Custom field equals', value: 'customField' },
+  { label: 'Name matches', value: 'name' }
+];
+
+export const taskNamePatternOptions: Array<{ label: string; value: TaskNamePatternType }> = [
+  { label: 'Glob (* and ?)', value: 'glob' },
+  { label: 'Regular expression', value: 'regex' }
+];
+
+export const MAX_NAME_PATTERN_LENGTH = 200;
+
+// Flags repeated groups like (a+)+ or (a|aa)+ that can backtrack for minutes on a long task name. Alternation is
+// refused outright inside a repeated group because telling overlapping branches apart needs a full regex analysis.
+const hasBacktrackingRepeat = (source: string): boolean => {
+  // One entry per open group: whether it contains a quantifier or an alternation.
+  const groupIsAmbiguous: boolean[] = [];
+  const markCurrentGroup = () => {
+    if (groupIsAmbiguous.length > 0) groupIsAmbiguous[groupIsAmbiguous.length - 1] = true;
+  };
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (char === '\\') {
+      index += 1;
+    } else if (char === '[') {
+      while (index < source.length && source[index] !== ']') index += source[index] === '\\' ? 2 : 1;
+    } else if (char === '(') {
+      groupIsAmbiguous.push(false);
+      // Skip group prefixes such as ?:, ?<= and ?<name> so their ? is not read as a quantifier.
+      const prefix = /^\?(?:<[^>=!]*>|<[=!]|[:=!])/.exec(source.slice(index + 1));
+      if (prefix) index += prefix[0].length;
+    } else if (char === ')') {
+      const ambiguous = groupIsAmbiguous.pop() ?? false;
+      if (ambiguous && /[*+{]/.test(source[index + 1] ?? '')) return true;
+      if (ambiguous) markCurrentGroup();
+    } else if (char === '|' || /[*+?{]/.test(char)) {
+      markCurrentGroup();
+    }
+  }
+
+  return false;
+};
+
+const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+export const compileNamePattern = (rule: Pick<TaskRule, 'value' | 'patternType'>): RegExp => {
+  if (rule.value.length > MAX_NAME_PATTERN_LENGTH) {
+    throw new Error(`Name patterns are limited to ${MAX_NAME_PATTERN_LENGTH} characters.`);
+  }
+  if (rule.patternType !== 'regex') return globToRegExp(rule.value.trim());
+  if (hasBacktrackingRepeat(rule.value)) {
+    throw new Error('Name patterns cannot repeat a group that contains | or its own repeat, such as (a|b)+ or (a+)+.');
+  }
+  return new RegExp(rule.value, 'i');
+};
+
+export const getNamePatternError = (rule: Pick<TaskRule, 'value' | 'patternType'>): string | undefined => {
+  try {
+    compileNamePattern(rule);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid name pattern.';
+  }
+};
+
+export const isValidNamePattern = (rule: Pick<TaskRule, 'value' | 'patternType'>): boolean =>
+  getNamePatternError(rule) === undefined;
+
+const sameText = (left: string | undefined, right: string): boolean =>
+  left !== undefined && left.trim().toLowerCase() === right.trim().toLowerCase();
+
+// Name patterns are compiled once per rule set rather than once per task.
+export const createTaskRuleMatcher = (rule: TaskRule): ((subject: TaskRuleSubject) => boolean) => {
+  if (rule.field === 'name') {
+    const pattern = compileNamePattern(rule);
+    return (subject) => subject.name !== undefined && pattern.test(subject.name);
+  }
+
+  if (rule.field === 'customField') {
+    return (subject) =>
+      (subject.customFields ?? []).some(
+        (field) =>
+          (sameText(field.name, rule.customFieldName ?? '') || sameText(field.id, rule.customFieldName ?? '')) &&
+          field.values.some((value) => sameText(value, rule.value))
+      );
+  }
+
+  return (subject) => sameText(subject.status, rule.value);
+};
+
+export const createTaskRuleFilter = (rules: TaskRule[] = []): ((subject: TaskRuleSubject) => boolean) => {
+  const excludeMatchers = rules.filter((rule) => rule.action === 'exclude').map(createTaskRuleMatcher);
+  const includeMatchers = rules.filter((rule) => rule.action === 'include').map(createTaskRuleMatcher);
+
+  return (subject) => {
+    if (excludeMatchers.some((matches) => matches(subject))) return false;
+    return includeMatchers.length === 0 || includeMatchers.some((matches) => matches(subject));
+  };
+};
+
+export const describeTaskRule = (rule: TaskRule): string => {
+  const verb = rule.action === 'exclude' ? 'Exclude' : 'Include only';
+  if (rule.field === 'name') return `${verb} names matching ${rule.patternType === 'regex' ? `/${rule.value}/` : rule.value}`;
+  if (rule.field === 'customField') return `${verb} ${rule.customFieldName} = ${rule.value}`;
+  return `${verb} status ${rule.value}`;
+};
@@ -0,0 +1,18 @@
+import { endOfDay, startOfDay } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+
+import { parseDateInput } from './timeRange';
+
+describe('parseDateInput', () => {
+  it('reads a date input as midnight in the given time zone', () => {
+    expect(parseDateInput('2026-10-01', 'America/Los_Angeles').getTime()).toBe(Date.parse('2026-10-01T07:00:00Z'));
+    expect(parseDateInput('2026-10-01', 'Asia/Tokyo').getTime()).toBe(Date.parse('2026-09-30T15:00:00Z'));
+  });
+
+  it('keeps whole-day bounds inside the time zone', () => {
+    const start = startOfDay(parseDateInput('2026-10-01', 'America/New_York'));
+    const end = endOfDay(parseDateInput('2026-10-01', 'America/New_York'));
+    expect(start.getTime()).toBe(Date.parse('2026-10-01T04:00:00.000Z'));
+    expect(end.getTime()).toBe(Date.parse('2026-10-02T03:59:59.999Z'));
+  });
+});
@@ -0,0 +1,66 @@
+import { TZDate } from '@date-fns/tz';
+
+import type { RolloverMode, TimeRangeMode } from './types';
+
+export const DEFAULT_WEEK_STARTS_ON = 1;
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 1;
+
+export const timeRangeModeOptions: Array<{ label: string; value: TimeRangeMode }> = [
+  { label: 'Weekly (current week)', value: 'weekly' },
+  { label: 'Monthly (current month)', value: 'monthly' },
+  { label: 'Quarterly (current quarter)', value: 'quarterly' },
+  { label: 'Yearly (current year)', value: 'yearly' },
+  { label: 'Fiscal quarter', value: 'fiscalQuarter' },
+  { label: 'Fiscal year', value: 'fiscalYear' },
+  { label: 'Rolling (last N days)', value: 'rolling' },
+  { label: 'Custom date range', value: 'custom' },
+  { label: 'No date limit (cumulative)', value: 'none' }
+];
+
+export const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const monthNames = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const getTimeZoneOptions = (): string[] => Intl.supportedValuesOf('timeZone');
+
+// Date inputs are plain yyyy-MM-dd strings; `new Date()` would read them as UTC midnight.
+export const parseDateInput = (value: string, timeZone: string | undefined): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return timeZone ? new TZDate(year, month - 1, day, timeZone) : new Date(year, month - 1, day);
+};
+
+// Rolling windows slide with every refresh, so there is no period end to project toward.
+export const isPeriodicTimeRange = (mode: TimeRangeMode): boolean => mode !== 'none' && mode !== 'rolling';
+
+export const isRecurringTimeRange = (mode: TimeRangeMode): boolean => isPeriodicTimeRange(mode) && mode !== 'custom';
+
+export const rolloverModeOptions: Array<{ label: string; value: RolloverMode }> = [
+  { label: 'No rollover (ledger only)', value: 'none' },
+  { label: 'Carry unused hours forward', value: 'unused' },
+  { label: 'Carry overspend forward', value: 'overspend' },
+  { label: 'Carry both unused hours and overspend', value: 'both' }
+];
@@ -1,8 +1,22 @@
-export type AlertType = 'folder' | 'list' | 'custom';
-export type ScopeType = 'folder' | 'list';
-export type TimeRangeMode = 'monthly' | 'custom' | 'none';
-export type AlertStatus = 'green' | 'yellow' | 'red' | 'inactive' | 'error';
-export type StatusFilter = 'all' | 'green' | 'yellow' | 'red' | 'inactive' | 'error';
+export type AlertType = 'space' | 'folder' | 'list' | 'custom' | 'multi';
+export type ScopeType = 'space' | 'folder' | 'list';
+export type TimeRangeMode =
+  | 'weekly'
+  | 'monthly'
+  | 'quarterly'
+  | 'yearly'
+  | 'fiscalQuarter'
+  | 'fiscalYear'
+  | 'rolling'
+  | 'custom'
+  | 'none';
+export type AlertStatus = 'green' | 'projected' | 'yellow' | 'red' | 'inactive' | 'error';
+export type StatusFilter = 'all' | 'green' | 'projected' | 'yellow' | 'red' | 'inactive' | 'error';
+export type BillableFilter = 'all' | 'billable' | 'nonBillable';
+export type UserFilterMode = 'all' | 'include' | 'exclude';
+export type RolloverMode = 'none' | 'unused' | 'overspend' | 'both';
+export type BudgetSource = 'manual' | 'estimates';
+export type NotificationTrigger = 'warning' | 'critical' | 'projected' | 'error' | 'recovered';
 export type SortBy = 'percentUsed' | 'name' | 'lastRefreshed';
 
 export interface TeamInfo {
@@ -10,16 +24,53 @@ export interface TeamInfo {
   name: string;
 }
 
+export type ConnectionTestStatus = 'untested' | 'ok' | 'failed';
+
+export interface ClickUpConnection {
+  id: string;
+  name: string;
+  teams: TeamInfo[];
+  testStatus: ConnectionTestStatus;
+  testMessage?: string;
+  testedAt?: string;
+  createdAt: string;
+}
+
+export interface StoredConnection extends ClickUpConnection {
+  encryptedToken: string;
+}
+
+export interface ConnectionInput {
+  id?: string;
+  name: string;
+  // Optional when editing; the stored token is kept.
+  token?: string;
+}
+
+export interface TeamMember {
+  id: string;
+  username?: string;
+  email?: string;
+}
+
+export interface SpaceInfo {
+  id: string;
+  name: string;
+  teamId: string;
+}
+
 export interface FolderInfo {
   id: string;
   name: string;
+  spaceId: string;
   teamId: string;
 }
 
 export interface ListInfo {
   id: string;
   name: string;
-  folderId: string;
+  folderId?: string;
+  spaceId: string;
   teamId: string;
 }
 
@@ -27,26 +78,201 @@ export interface TaskInfo {
   id: string;
   name: string;
   listId: string;
+  status?: string;
+  timeEstimateMs?: number;
+  timeSpentMs?: number;
+  tags?: string[];
+  customFields?: TaskCustomFieldValue[];
+}
+
+export interface TaskCustomFieldValue {
+  id: string;
+  name: string;
+  values: string[];
+}
+
+export interface TaskSearchQuery {
+  connectionId?: string;
+  listIds: string[];
+  search: string;
+}
+
+export interface TaskSearchResult {
+  id: string;
+  name: string;
+  listId: string;
+  status?: string;
+  trackedHours?: number;
 }
 
 export interface ScopeTreeFolder extends FolderInfo {
   lists: ListInfo[];
 }
 
-export interface ScopeTreeTeam extends TeamInfo {
+export interface ScopeTreeSpace extends SpaceInfo {
   folders: ScopeTreeFolder[];
+  lists: ListInfo[];
+}
+
+export interface ScopeTreeTeam extends TeamInfo {
+  connectionId?: string;
+  spaces: ScopeTreeSpace[];
 }
 
 export interface TimeEntry {
   id: string;
   taskId?: string;
+  taskName?: string;
   durationMs: number;
   startMs?: number;
   endMs?: number;
   userId?: string;
+  userName?: string;
+  description?: string;
+  billable?: boolean;
+  taskTags?: string[];
+  tags?: string[];
+  scopeId?: string;
+  isRunning?: boolean;
   raw?: unknown;
 }
 
+export interface TimeEntryDetail {
+  id: string;
+  taskId?: string;
+  taskName?: string;
+  userId?: string;
+  userName?: string;
+  description?: string;
+  startMs?: number;
+  hours: number;
+  isRunning?: boolean;
+}
+
+export interface EntryBreakdownGroup {
+  key: string;
+  label: string;
+  hours: number;
+  entryCount: number;
+}
+
+export interface AlertEntryBreakdown {
+  alertId: string;
+  fetchedAt: string;
+  totalHours: number;
+  entries: TimeEntryDetail[];
+  byTask: EntryBreakdownGroup[];
+  byUser: EntryBreakdownGroup[];
+  byDay: EntryBreakdownGroup[];
+}
+
+export interface AlertForecast {
+  burnRateHoursPerDay: number;
+  projectedHours: number;
+  projectedPercent: number;
+  periodEndsAt: string;
+  projectedExhaustionAt?: string;
+}
+
+export interface RateOverride {
+  key: string;
+  hourlyRate: number;
+}
+
+export type TaskRuleAction = 'exclude' | 'include';
+
+export type TaskRuleField = 'status' | 'customField' | 'name';
+
+export type TaskNamePatternType = 'glob' | 'regex';
+
+export interface TaskRule {
+  action: TaskRuleAction;
+  field: TaskRuleField;
+  value: string;
+  customFieldName?: string;
+  patternType?: TaskNamePatternType;
+}
+
+export interface TaskRulePreviewQuery {
+  connectionId?: string;
+  listIds: string[];
+  rules: TaskRule[];
+}
+
+export interface TaskRuleMatch {
+  matchCount: number;
+  tasks: TaskSearchResult[];
+}
+
+export interface TaskRulePreview {
+  totalTaskCount: number;
+  countedTaskCount: number;
+  rules: TaskRuleMatch[];
+}
+
+export interface AlertScopeRef {
+  type: 'folder' | 'list';
+  id: string;
+  name?: string;
+}
+
+export interface ScopeBreakdownItem {
+  type: 'folder' | 'list';
+  id: string;
+  name: string;
+  hours: number;
+  entryCount: number;
+}
+
+export interface TaskEstimateOverrun {
+  taskId: string;
+  taskName: string;
+  estimateHours: number;
+  trackedHours: number;
+  overByHours: number;
+}
+
+export interface AlertEstimateSnapshot {
+  estimatedHours: number;
+  taskCount: number;
+  estimatedTaskCount: number;
+  trackedOnEstimatedHours: number;
+  coveragePercent: number;
+  overrunningTaskCount: number;
+  topOverruns: TaskEstimateOverrun[];
+}
+
+export interface BudgetPeriodRecord {
+  periodStart: string;
+  periodEnd: string;
+  budgetHours: number;
+  budgetSource?: BudgetSource;
+  carriedInHours: number;
+  hoursUsed: number;
+  closingBalanceHours: number;
+  carriedOutHours: number;
+  closedAt: string;
+}
+
+export interface AlertCostSnapshot {
+  currency: string;
+  costUsed: number;
+  budgetAmount?: number;
+  costRemaining?: number;
+  overByAmount?: number;
+  percentUsed?: number;
+  unratedHours: number;
+}
+
+export interface PersonBudgetStatus {
+  userId: string;
+  userName: string;
+  hoursUsed: number;
+  capHours: number;
+  percentUsed: number;
+  status: AlertStatus;
+}
+
 export interface AlertSnapshot {
   status: AlertStatus;
   hoursUsed: number;
@@ -57,64 +283,237 @@ export interface AlertSnapshot {
   entryCount: number;
   lastRefreshedAt: string;
   scopeSummary: string;
+  forecast?: AlertForecast;
+  perPerson?: PersonBudgetStatus[];
+  cost?: AlertCostSnapshot;
+  carriedInHours?: number;
+  liveHours?: number;
+  runningTimerCount?: number;
+  scopeBreakdown?: ScopeBreakdownItem[];
+  estimate?: AlertEstimateSnapshot;
+  timeZone?: string;
   warningMessage?: string;
   errorMessage?: string;
 }
 
+export interface SnapshotHistoryQuery {
+  alertId: string;
+  startDate?: string;
+  endDate?: string;
+}
+
 export interface AlertConfig {
   id: string;
   order: number;
   name: string;
   description?: string;
   type: AlertType;
+  connectionId?: string;
   teamId: string;
+  spaceId?: string;
+  spaceName?: string;
   folderId?: string;
   folderName?: string;
   listId?: string;
   listName?: string;
   customScopeType?: ScopeType;
+  scopes?: AlertScopeRef[];
   timeRangeMode: TimeRangeMode;
   startDate?: string;
   endDate?: string;
+  timeZone?: string;
+  weekStartsOn?: number;
+  rollingDays?: number;
+  fiscalYearStartMonth?: number;
+  recurringPeriod?: boolean;
+  rolloverMode?: RolloverMode;
+  rolloverCapHours?: number;
+  budgetSource?: BudgetSource;
   budgetHours: number;
+  budgetAmount?: number;
+  currency?: string;
+  hourlyRate?: number;
+  userRates?: RateOverride[];
+  tagRates?: RateOverride[];
   warningThresholdPct: number;
   criticalThresholdPct: number;
   excludedTaskIds: string[];
   includeOnlyTaskIds?: string[];
+  taskNames?: Record<string, string>;
+  taskRules?: TaskRule[];
+  userFilterMode?: UserFilterMode;
+  userIds?: string[];
+  perPersonCapHours?: number;
+  billableFilter?: BillableFilter;
+  excludeRunningTimers?: boolean;
+  includedTaskTags?: string[];
+  excludedTaskTags?: string[];
+  includedEntryTags?: string[];
+  excludedEntryTags?: string[];
   refreshFrequencyMinutes: number;
+  notifyOn?: NotificationTrigger[];
   active: boolean;
   createdAt: string;
   updatedAt: string;
   lastRefreshedAt?: string;
   lastSnapshot?: AlertSnapshot;
+  currentPeriodStart?: string;
+  periodLedger?: BudgetPeriodRecord[];
 }
 
 export interface AlertDraft {
   name: string;
   description?: string;
   type: AlertType;
+  connectionId?: string;
   teamId: string;
+  spaceId?: string;
+  spaceName?: string;
   folderId?: string;
   folderName?: string;
   listId?: string;
   listName?: string;
   customScopeType?: ScopeType;
+  scopes?: AlertScopeRef[];
   timeRangeMode: TimeRangeMode;
   startDate?: string;
   endDate?: string;
+  timeZone?: string;
+  weekStartsOn?: number;
+  rollingDays?: number;
+  fiscalYearStartMonth?: number;
+  recurringPeriod?: boolean;
+  rolloverMode?: RolloverMode;
+  rolloverCapHours?: number;
+  budgetSource?: BudgetSource;
   budgetHours: number;
+  budgetAmount?: number;
+  currency?: string;
+  hourlyRate?: number;
+  userRates?: RateOverride[];
+  tagRates?: RateOverride[];
   warningThresholdPct: number;
   criticalThresholdPct: number;
   excludedTaskIds: string[];
   includeOnlyTaskIds?: string[];
+  taskNames?: Record<string, string>;
+  taskRules?: TaskRule[];
+  userFilterMode?: UserFilterMode;
+  userIds?: string[];
+  perPersonCapHours?: number;
+  billableFilter?: BillableFilter;
+  excludeRunningTimers?: boolean;
+  includedTaskTags?: string[];
+  excludedTaskTags?: string[];
+  includedEntryTags?: string[];
+  excludedEntryTags?: string[];
   refreshFrequencyMinutes: number;
+  notifyOn?: NotificationTrigger[];
   active: boolean;
 }
 
+export type AlertTransferFormat = 'json' | 'yaml';
+
+export interface AlertExportOptions {
+  format: AlertTransferFormat;
+  includeSnapshots: boolean;
+}
+
+export interface AlertTransferSnapshots {
+  lastRefreshedAt?: string;
+  lastSnapshot?: AlertSnapshot;
+  currentPeriodStart?: string;
+  periodLedger?: BudgetPeriodRecord[];
+  history?: AlertSnapshot[];
+}
+
+export type AlertImportAction = 'create' | 'merge' | 'replace' | 'skip';
+
+export type AlertImportConflictReason = 'name' | 'scope';
+
+export interface AlertImportConflict {
+  alertId: string;
+  alertName: string;
+  reasons: AlertImportConflictReason[];
+}
+
+export interface AlertImportItem {
+  index: number;
+  name: string;
+  draft?: AlertDraft;
+  snapshots?: AlertTransferSnapshots;
+  conflict?: AlertImportConflict;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface AlertImportPreview {
+  filePath: string;
+  format: AlertTransferFormat;
+  exportedAt?: string;
+  items: AlertImportItem[];
+}
+
+export interface AlertImportSelection {
+  draft: AlertDraft;
+  snapshots?: AlertTransferSnapshots;
+  action: AlertImportAction;
+  targetAlertId?: string;
+}
+
+export interface AlertImportResult {
+  alerts: AlertConfig[];
+  created: number;
+  merged: number;
+  replaced: number;
+  skipped: number;
+}
+
 export interface RefreshAlertResult {
   alert: AlertConfig;
   success: boolean;
   errorMessage?: string;
+  errorStatus?: number;
+}
+
+export interface SchedulerStatus {
+  running: boolean;
+  total: number;
+  completed: number;
+  currentAlertId?: string;
+  lastRunAt?: string;
+  nextCheckAt?: string;
+  backoffUntil?: string;
+}
+
+export interface ResponseCacheEndpointStats {
+  endpoint: string;
+  hits: number;
+  misses: number;
+}
+
+export interface ResponseCacheStats {
+  entryCount: number;
+  hits: number;
+  misses: number;
+  hitRatePct: number;
+  endpoints: ResponseCacheEndpointStats[];
+  lastClearedAt?: string;
+}
+
+export interface RateLimitStatus {
+  connectionId?: string;
+  connectionName?: string;
+  limit: number;
+  remaining: number;
+  queuedRequests: number;
+  resetAt?: string;
+  blockedUntil?: string;
+}
+
+export interface SchedulerProgressEvent {
+  status: SchedulerStatus;
+  result?: RefreshAlertResult;
 }
 
 export interface DashboardSummary {
@@ -129,17 +528,59 @@ export interface UiPreferences {
   search: string;
   statusFilter: StatusFilter;
   sortBy: SortBy;
+  workspaceTimeZones: Record<string, string>;
+}
+
+export type StateRecoveryReason = 'corrupt' | 'newerVersion' | 'migrationFailed';
+
+export interface StateRecoveryNotice {
+  reason: StateRecoveryReason;
+  message: string;
+  backupPath: string;
+  detectedAt: string;
+}
+
+export type BackupReason = 'scheduled' | 'manual' | 'beforeDelete' | 'beforeImport' | 'beforeRestore';
+
+export interface BackupInfo {
+  id: string;
+  createdAt: string;
+  reason: BackupReason;
+  sizeBytes: number;
+}
+
+// Relative to the current alerts: `removed` exists only in the backup, `added` only in the current state.
+export type BackupAlertChange = 'removed' | 'added' | 'changed' | 'unchanged';
+
+export interface BackupAlertDiff {
+  alertId: string;
+  name: string;
+  change: BackupAlertChange;
+  changedFields: string[];
+}
+
+export interface BackupDiff {
+  backup: BackupInfo;
+  alerts: BackupAlertDiff[];
+}
+
+export interface BackupRestoreRequest {
+  backupId: string;
+  // Omitted to restore the whole backup, replacing every current alert.
+  alertIds?: string[];
 }
 
 export interface PersistedState {
   version: number;
-  encryptedToken?: string;
+  connections?: StoredConnection[];
   alerts: AlertConfig[];
+  snapshotHistory: Record<string, AlertSnapshot[]>;
   uiPreferences: UiPreferences;
+  recovery?: StateRecoveryNotice;
 }
 
 export interface AuthState {
-  hasToken: boolean;
+  connections: ClickUpConnection[];
   teams: TeamInfo[];
 }
 
@@ -147,6 +588,7 @@ export interface InitialData {
   auth: AuthState;
   alerts: AlertConfig[];
   uiPreferences: UiPreferences;
+  recovery?: StateRecoveryNotice;
 }
 
 export interface ClickUpApiErrorShape {
@@ -1,22 +1,87 @@
 import { z } from 'zod';
 
+import { getNamePatternError } from './taskRules';
+import { isRecurringTimeRange, isValidTimeZone } from './timeRange';
+
 const taskIdRegex = /^[a-zA-Z0-9_-]+$/;
 
+const rateOverrideSchema = z.object({
+  key: z.string().trim().min(1, 'Rate key is required'),
+  hourlyRate: z.number().min(0, 'Hourly rate must be >= 0')
+});
+
+const taskRuleSchema = z.object({
+  action: z.enum(['exclude', 'include']),
+  field: z.enum(['status', 'customField', 'name']),
+  value: z.string().trim().min(1, 'Rule value is required').max(200, 'Rule value too long'),
+  customFieldName: z.string().trim().max(100).optional(),
+  patternType: z.enum(['glob', 'regex']).optional()
+});
+
 export const alertDraftSchema = z
   .object({
     name: z.string().trim().min(1, 'Alert name is required').max(120, 'Name too long'),
     description: z.string().max(300, 'Description too long').optional().or(z.literal('')),
-    type: z.enum(['folder', 'list', 'custom']),
+    type: z.enum(['space', 'folder', 'list', 'custom', 'multi']),
+    connectionId: z.string().trim().optional(),
     teamId: z.string().trim().min(1, 'Team is required'),
+    spaceId: z.string().trim().optional(),
+    spaceName: z.string().trim().optional(),
     folderId: z.string().trim().optional(),
     folderName: z.string().trim().optional(),
     listId: z.string().trim().optional(),
     listName: z.string().trim().optional(),
-    customScopeType: z.enum(['folder', 'list']).optional(),
-    timeRangeMode: z.enum(['monthly', 'custom', 'none']),
+    customScopeType: z.enum(['space', 'folder', 'list']).optional(),
+    scopes: z
+      .array(
+        z.object({
+          type: z.enum(['folder', 'list']),
+          id: z.string().trim().min(1),
+          name: z.string().trim().optional()
+        })
+      )
+      .max(50, 'Too many scopes')
+      .optional(),
+    timeRangeMode: z.enum([
+      'weekly',
+      'monthly',
+      'quarterly',
+      'yearly',
+      'fiscalQuarter',
+      'fiscalYear',
+      'rolling',
+      'custom',
+      'none'
+    ]),
     startDate: z.string().optional(),
     endDate: z.string().optional(),
+    timeZone: z
+      .string()
+      .trim()
+      .refine((value) => isValidTimeZone(value), 'Unknown timezone')
+      .optional(),
+    weekStartsOn: z.number().int().min(0).max(6).optional(),
+    rollingDays: z
+      .number()
+      .int('Rolling window must be a whole number of days')
+      .min(1, 'Rolling window must be at least 1 day')
+      .max(3650, 'Rolling window is too long')
+      .optional(),
+    fiscalYearStartMonth: z.number().int().min(1).max(12).optional(),
+    recurringPeriod: z.boolean().optional(),
+    rolloverMode: z.enum(['none', 'unused', 'overspend', 'both']).optional(),
+    rolloverCapHours: z.number().positive('Rollover cap must be greater than 0').optional(),
+    budgetSource: z.enum(['manual', 'estimates']).optional(),
     budgetHours: z.number().positive('Budget hours must be greater than 0'),
+    budgetAmount: z.number().positive('Budget amount must be greater than 0').optional(),
+    currency: z
+      .string()
+      .trim()
+      .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code')
+      .optional(),
+    hourlyRate: z.number().min(0, 'Hourly rate must be >= 0').optional(),
+    userRates: z.array(rateOverrideSchema).optional(),
+    tagRates: z.array(rateOverrideSchema).optional(),
     warningThresholdPct: z
       .number()
       .min(0, 'Warning threshold must be >= 0')
@@ -29,10 +94,26 @@ export const alertDraftSchema = z
     includeOnlyTaskIds: z
       .array(z.string().trim().regex(taskIdRegex, 'Invalid task ID format'))
       .optional(),
+    taskNames: z.record(z.string(), z.string().max(500)).optional(),
+    taskRules: z.array(taskRuleSchema).max(20, 'Too many task rules').optional(),
+    userFilterMode: z.enum(['all', 'include', 'exclude']).optional(),
+    userIds: z.array(z.string().trim().min(1)).optional(),
+    perPersonCapHours: z.number().positive('Per person cap must be greater than 0').optional(),
+    billableFilter: z.enum(['all', 'billable', 'nonBillable']).optional(),
+    excludeRunningTimers: z.boolean().optional(),
+    includedTaskTags: z.array(z.string().trim().min(1).max(100, 'Tag too long')).optional(),
+    excludedTaskTags: z.array(z.string().trim().min(1).max(100, 'Tag too long')).optional(),
+    includedEntryTags: z.array(z.string().trim().min(1).max(100, 'Tag too long')).optional(),
+    excludedEntryTags: z.array(z.string().trim().min(1).max(100, 'Tag too long')).optional(),
     refreshFrequencyMinutes: z.number().min(0).max(720),
+    notifyOn: z.array(z.enum(['warning', 'critical', 'projected', 'error', 'recovered'])).optional(),
     active: z.boolean()
   })
   .superRefine((val, ctx) => {
+    if (val.type === 'space' && !val.spaceId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Space is required', path: ['spaceId'] });
+    }
+
     if (val.type === 'folder' && !val.folderId) {
       ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Folder is required', path: ['folderId'] });
     }
@@ -49,6 +130,9 @@ export const alertDraftSchema = z
           path: ['customScopeType']
         });
       }
+      if (val.customScopeType === 'space' && !val.spaceId) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Space is required', path: ['spaceId'] });
+      }
       if (val.customScopeType === 'folder' && !val.folderId) {
         ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Folder is required', path: ['folderId'] });
       }
@@ -57,6 +141,10 @@ export const alertDraftSchema = z
       }
     }
 
+    if (val.type === 'multi' && !val.scopes?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Select at least one folder or list', path: ['scopes'] });
+    }
+
     if (val.timeRangeMode === 'custom') {
       if (!val.startDate) {
         ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Start date required', path: ['startDate'] });
@@ -73,6 +161,40 @@ export const alertDraftSchema = z
       }
     }
 
+    if (val.timeRangeMode === 'rolling' && !val.rollingDays) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Number of days is required', path: ['rollingDays'] });
+    }
+
+    if (val.recurringPeriod && !isRecurringTimeRange(val.timeRangeMode)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Recurring periods need a weekly, monthly, quarterly, yearly or fiscal time range',
+        path: ['timeRangeMode']
+      });
+    }
+
+    for (const rule of val.taskRules ?? []) {
+      if (rule.field === 'customField' && !rule.customFieldName) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Custom field name is required', path: ['taskRules'] });
+      }
+      const patternError = rule.field === 'name' ? getNamePatternError(rule) : undefined;
+      if (patternError) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: patternError, path: ['taskRules'] });
+      }
+    }
+
+    if ((val.userFilterMode === 'include' || val.userFilterMode === 'exclude') && !val.userIds?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Select at least one user', path: ['userIds'] });
+    }
+
+    if (val.budgetAmount && val.hourlyRate === undefined && !val.userRates?.length && !val.tagRates?.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Set an hourly rate to track a currency budget',
+        path: ['hourlyRate']
+      });
+    }
+
     if (val.warningThresholdPct >= val.criticalThresholdPct) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
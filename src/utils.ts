@@ -1,9 +1,28 @@
-import type { AlertConfig, AlertStatus, DashboardSummary, StatusFilter, UiPreferences } from './shared/types';
+import type {
+  AlertConfig,
+  AlertStatus,
+  DashboardSummary,
+  RateOverride,
+  StatusFilter,
+  TeamMember,
+  UiPreferences
+} from './shared/types';
 
 export const hours = (value: number): string => `${value.toFixed(2)} h`;
 
+export const signedHours = (value: number): string => `${value > 0 ? '+' : ''}${hours(value)}`;
+
+export const money = (value: number, currency = 'USD'): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+  } catch {
+    return `${value.toFixed(2)} ${currency}`;
+  }
+};
+
 export const statusDotClass: Record<AlertStatus, string> = {
   green: 'bg-moss',
+  projected: 'bg-amberearth',
   yellow: 'bg-amberearth',
   red: 'bg-terracotta',
   inactive: 'bg-stonewarm-200',
@@ -12,6 +31,7 @@ export const statusDotClass: Record<AlertStatus, string> = {
 
 export const statusCardClass: Record<AlertStatus, string> = {
   green: 'border-moss/40 bg-white',
+  projected: 'border-amberearth/40 bg-white',
   yellow: 'border-amberearth/40 bg-white',
   red: 'border-terracotta/40 bg-white',
   inactive: 'border-stonewarm-200 bg-white/80',
@@ -20,6 +40,7 @@ export const statusCardClass: Record<AlertStatus, string> = {
 
 export const statusLabel = (status: AlertStatus): string => {
   if (status === 'green') return 'Safe';
+  if (status === 'projected') return 'Projected over';
   if (status === 'yellow') return 'Warning';
   if (status === 'red') return 'Critical';
   if (status === 'inactive') return 'Inactive';
@@ -42,6 +63,7 @@ export const getVisibleAlerts = (alerts: AlertConfig[], ui: UiPreferences): Aler
     const haystack = [
       alert.name,
       alert.description ?? '',
+      alert.spaceName ?? '',
       alert.folderName ?? '',
       alert.listName ?? '',
       alert.type,
@@ -85,7 +107,7 @@ export const computeSummary = (alerts: AlertConfig[]): DashboardSummary => {
     summary.activeAlerts += 1;
     const status = alert.lastSnapshot?.status;
     if (status === 'green') summary.green += 1;
-    if (status === 'yellow') summary.yellow += 1;
+    if (status === 'yellow' || status === 'projected') summary.yellow += 1;
     if (status === 'red') summary.red += 1;
     if ((alert.lastSnapshot?.overByHours ?? 0) > 0) summary.overBudget += 1;
   }
@@ -93,11 +115,41 @@ export const computeSummary = (alerts: AlertConfig[]): DashboardSummary => {
   return summary;
 };
 
-export const parseTaskIdInput = (input: string): string[] =>
-  [...new Set(input.split(',').map((id) => id.trim()).filter((id) => id.length > 0))];
+export const parseTagInput = (input: string): string[] =>
+  [...new Set(input.split(',').map((tag) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0))];
+
+// Entries whose rate is not a number of 0 or more come back in `invalidKeys` instead of `rates`.
+export const parseRateInput = (input: string): { rates: RateOverride[]; invalidKeys: string[] } => {
+  const parsed = input
+    .split(',')
+    .map((pair) => pair.split('='))
+    .map(([key, rate]) => ({ key: (key ?? '').trim().toLowerCase(), rate: (rate ?? '').trim() }))
+    .filter((item) => item.key.length > 0)
+    .map(({ key, rate }) => ({ key, hourlyRate: rate ? Number(rate) : Number.NaN }));
+  const isValid = (item: RateOverride) => Number.isFinite(item.hourlyRate) && item.hourlyRate >= 0;
+
+  return {
+    rates: parsed.filter(isValid),
+    invalidKeys: parsed.filter((item) => !isValid(item)).map((item) => item.key)
+  };
+};
+
+export const formatRates = (rates: RateOverride[] | undefined): string =>
+  (rates ?? []).map((rate) => `${rate.key}=${rate.hourlyRate}`).join(', ');
 
 export const formatTaskIds = (values: string[] | undefined): string => (values ?? []).join(', ');
 
+export const memberLabel = (member: TeamMember): string =>
+  member.username && member.email ? `${member.username} (${member.email})` : member.username ?? member.email ?? member.id;
+
+export const formatDate = (iso: string | undefined, timeZone?: string): string => {
+  if (!iso) return 'n/a';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return 'n/a';
+
+  return date.toLocaleDateString(undefined, { timeZone });
+};
+
 export const formatRelativeRefresh = (iso: string | undefined): string => {
   if (!iso) return 'Never refreshed';
   const date = new Date(iso);
@@ -109,6 +161,7 @@ export const formatRelativeRefresh = (iso: string | undefined): string => {
 export const statusFilterOptions: Array<{ label: string; value: StatusFilter }> = [
   { label: 'All statuses', value: 'all' },
   { label: 'Green', value: 'green' },
+  { label: 'Projected over', value: 'projected' },
   { label: 'Yellow', value: 'yellow' },
   { label: 'Red', value: 'red' },
   { label: 'Inactive', value: 'inactive' },